@@ -0,0 +1,71 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as Constants from '../common/constants';
+import { RequestHost } from '../models/requestHost';
+import { EnvironmentVariables } from '../utils/httpVariableProviders/baseEnvironmentVariableProvider';
+import { resolveRequestBodyPath } from '../utils/requestParserUtil';
+import { VariableProcessor } from '../utils/variableProcessor';
+import { CliFileVariableProvider } from './httpVariableProviders/cliFileVariableProvider';
+
+export class CliRequestHost implements RequestHost {
+    public constructor(
+        private readonly httpFilePath: string,
+        private readonly environmentName: string,
+        private readonly environmentVariables: EnvironmentVariables,
+        private readonly fileVariableProvider: CliFileVariableProvider) {
+    }
+
+    public resolveVariables(text: string, variables?: Map<string, string>): Promise<string> {
+        return VariableProcessor.processRawRequest(text, variables);
+    }
+
+    public resolveFilePath(refPath: string): Promise<string | undefined> {
+        // relative paths are resolved against the folder of the http file first, and then the working directory
+        return resolveRequestBodyPath(refPath, [path.dirname(this.httpFilePath), process.cwd()]);
+    }
+
+    public async findProtoFiles(): Promise<string[]> {
+        // proto files are searched in the folder of the http file and its subfolders
+        const files: string[] = [];
+        const search = async (dir: string) => {
+            for (const name of await fs.readdir(dir)) {
+                const entryPath = path.join(dir, name);
+                const stats = await fs.stat(entryPath);
+                if (stats.isDirectory()) {
+                    if (name !== 'node_modules' && !name.startsWith('.')) {
+                        await search(entryPath);
+                    }
+                } else if (stats.isFile() && name.endsWith('.proto')) {
+                    files.push(entryPath);
+                }
+            }
+        };
+
+        await search(path.dirname(this.httpFilePath));
+        return files;
+    }
+
+    public async getEnvironmentProfiles(name: string): Promise<{ [profileName: string]: any }> {
+        const environments = this.environmentVariables as { [key: string]: { [key: string]: any } };
+        return {
+            ...environments[Constants.SharedEnvironmentName]?.[name],
+            ...environments[this.environmentName]?.[name]
+        };
+    }
+
+    public getHttpFilePath(): string {
+        return this.httpFilePath;
+    }
+
+    public setFileVariable(name: string, value: string) {
+        this.fileVariableProvider.setVariable(undefined, name, value);
+    }
+
+    public showWarning(message: string) {
+        process.stderr.write(`Warning: ${message}\n`);
+    }
+
+    public log(message: string) {
+        process.stderr.write(`${message}\n`);
+    }
+}
@@ -0,0 +1,173 @@
+import * as fs from 'fs-extra';
+import { MemoryCookieStore } from 'tough-cookie';
+import * as Constants from '../common/constants';
+import { HttpRequestSettings } from '../models/configurationSettings';
+import { getResponseTestState, HttpTestReport, RequestTestResult, TestState } from '../models/httpTestResult';
+import { RequestMetadata } from '../models/requestMetadata';
+import { DataFileParser, DataRow } from '../utils/dataFileParser';
+import { isGraphQlSubscription } from '../utils/graphql/graphQlUtility';
+import { HttpClient } from '../utils/httpClient';
+import { EnvironmentVariables } from '../utils/httpVariableProviders/baseEnvironmentVariableProvider';
+import { prepareRequest } from '../utils/requestPreparer';
+import { RequestTextSelector } from '../utils/requestTextSelector';
+import { ResponseAssertionProcessor } from '../utils/responseAssertionProcessor';
+import { ResponseSnapshotProcessor } from '../utils/responseSnapshotProcessor';
+import { VariableProcessor } from '../utils/variableProcessor';
+import { CliRequestHost } from './cliRequestHost';
+import { CliEnvironmentVariableProvider } from './httpVariableProviders/cliEnvironmentVariableProvider';
+import { CliFileVariableProvider } from './httpVariableProviders/cliFileVariableProvider';
+import { CliRequestVariableProvider } from './httpVariableProviders/cliRequestVariableProvider';
+import { CliSystemVariableProvider } from './httpVariableProviders/cliSystemVariableProvider';
+
+export interface HttpFileRunnerOptions {
+    environmentName: string;
+
+    environmentVariables: EnvironmentVariables;
+
+    settings: HttpRequestSettings;
+
+    /**
+     * Overwrites the existing response snapshots instead of comparing against them
+     */
+    updateSnapshots?: boolean;
+}
+
+/**
+ * Sends all the requests of an http file in order outside of the editor
+ */
+export class HttpFileRunner {
+    public constructor(private readonly options: HttpFileRunnerOptions) {
+    }
+
+    public async run(filePath: string, onDidRunRequest?: (result: RequestTestResult) => void): Promise<HttpTestReport> {
+        const startTime = Date.now();
+        const content = await fs.readFile(filePath, 'utf8');
+
+        const environmentProvider = new CliEnvironmentVariableProvider(this.options.environmentName, this.options.environmentVariables);
+        const requestProvider = new CliRequestVariableProvider(content);
+        const systemProvider = new CliSystemVariableProvider(environmentProvider);
+        const fileProvider = new CliFileVariableProvider(content, [systemProvider, requestProvider, environmentProvider]);
+        VariableProcessor.registerProviders([
+            [systemProvider, false],
+            [requestProvider, true],
+            [fileProvider, true],
+            [environmentProvider, true],
+        ]);
+
+        const host = new CliRequestHost(filePath, this.options.environmentName, this.options.environmentVariables, fileProvider);
+        const httpClient = new HttpClient(new MemoryCookieStore());
+        const results: RequestTestResult[] = [];
+        for (const range of RequestTextSelector.getRequestRanges(content.split(Constants.LineSplitterRegex))) {
+            for (const result of await this.runRequest(content, range, host, httpClient, requestProvider)) {
+                results.push(result);
+                onDidRunRequest?.(result);
+            }
+        }
+
+        return {
+            fileName: filePath,
+            startTime,
+            duration: Date.now() - startTime,
+            results
+        };
+    }
+
+    /**
+     * Sends the request in the given range, the request with `@data` metadata is sent once per data row
+     */
+    private async runRequest(
+        content: string,
+        range: [number, number],
+        host: CliRequestHost,
+        httpClient: HttpClient,
+        requestProvider: CliRequestVariableProvider): Promise<RequestTestResult[]> {
+        const requestText = RequestTextSelector.getDelimitedText(content, range[0]);
+        let dataRows: (DataRow | undefined)[] = [undefined];
+        try {
+            const metadatas = RequestTextSelector.parseReqMetadatas(requestText?.split(Constants.LineSplitterRegex) ?? []);
+            if (metadatas.has(RequestMetadata.Data)) {
+                dataRows = await DataFileParser.load(metadatas.get(RequestMetadata.Data), host);
+            }
+        } catch (error) {
+            return [{ range, state: TestState.Errored, assertionResults: [], duration: 0, message: error.message }];
+        }
+
+        const results: RequestTestResult[] = [];
+        for (const [index, dataRow] of dataRows.entries()) {
+            results.push(await this.sendRequest(requestText, range, dataRow ? index : undefined, dataRow, host, httpClient, requestProvider));
+        }
+
+        return results;
+    }
+
+    private async sendRequest(
+        requestText: string | null,
+        range: [number, number],
+        dataRowIndex: number | undefined,
+        dataRow: DataRow | undefined,
+        host: CliRequestHost,
+        httpClient: HttpClient,
+        requestProvider: CliRequestVariableProvider): Promise<RequestTestResult> {
+        const startTime = Date.now();
+        const result: RequestTestResult = { range, state: TestState.Errored, assertionResults: [], duration: 0, dataRow };
+        try {
+            // the columns of the data row take precedence over the other variables
+            const variables = new Map(Object.entries(dataRow ?? {}));
+            const selectedRequest = requestText !== null ? await RequestTextSelector.parseRequestText(requestText, text => host.resolveVariables(text, variables)) : null;
+            if (!selectedRequest) {
+                result.state = TestState.Skipped;
+                result.message = 'No request is found';
+                return result;
+            }
+
+            const { metadatas } = selectedRequest;
+            const name = result.name = metadatas.get(RequestMetadata.Name);
+            if (metadatas.has(RequestMetadata.Prompt)) {
+                result.state = TestState.Skipped;
+                result.message = 'Request with prompt variables can only be sent in the editor';
+                return result;
+            }
+
+            const settings: HttpRequestSettings = {
+                ...this.options.settings,
+                followRedirect: metadatas.has(RequestMetadata.NoRedirect) ? false : this.options.settings.followRedirect,
+                rememberCookiesForSubsequentRequests: metadatas.has(RequestMetadata.NoCookieJar) ? false : this.options.settings.rememberCookiesForSubsequentRequests
+            };
+            const httpRequest = await prepareRequest(selectedRequest, settings, host, dataRowIndex);
+            result.method = httpRequest.method;
+            result.url = httpRequest.url;
+
+            if (httpRequest.method === Constants.WebSocketRequestMethod) {
+                result.state = TestState.Skipped;
+                result.message = 'WebSocket request can only be sent from the editor';
+                return result;
+            }
+
+            if (isGraphQlSubscription(httpRequest)) {
+                result.state = TestState.Skipped;
+                result.message = 'GraphQL subscription can only be sent from the editor';
+                return result;
+            }
+
+            const response = await httpClient.send(httpRequest, settings, host);
+            if (name) {
+                requestProvider.add(name, response);
+            }
+
+            response.assertionResults = ResponseAssertionProcessor.evaluate(response, httpRequest.assertions);
+            if (httpRequest.snapshot) {
+                response.assertionResults.push(await ResponseSnapshotProcessor.check(response, httpRequest.snapshot, this.options.updateSnapshots));
+            }
+            result.response = response;
+            result.assertionResults = response.assertionResults;
+            Object.assign(result, getResponseTestState(response));
+        } catch (error) {
+            result.state = TestState.Errored;
+            result.message = error.message;
+        } finally {
+            result.duration = Date.now() - startTime;
+        }
+
+        return result;
+    }
+}
@@ -0,0 +1,15 @@
+import { BaseEnvironmentVariableProvider, EnvironmentVariables } from '../../utils/httpVariableProviders/baseEnvironmentVariableProvider';
+
+export class CliEnvironmentVariableProvider extends BaseEnvironmentVariableProvider {
+    public constructor(private readonly environmentName: string, private readonly environmentVariables: EnvironmentVariables) {
+        super();
+    }
+
+    protected async getEnvironmentName(): Promise<string> {
+        return this.environmentName;
+    }
+
+    protected getEnvironmentVariables(): EnvironmentVariables {
+        return this.environmentVariables;
+    }
+}
@@ -0,0 +1,21 @@
+import { BaseFileVariableProvider, FileVariableValue } from '../../utils/httpVariableProviders/baseFileVariableProvider';
+import { HttpVariableProvider } from '../../utils/httpVariableProviders/httpVariableProvider';
+
+export class CliFileVariableProvider extends BaseFileVariableProvider {
+    private readonly fileVariables: FileVariableValue[];
+
+    private readonly runtimeVariables = new Map<string, string>();
+
+    public constructor(fileContent: string, protected readonly innerVariableProviders: HttpVariableProvider[]) {
+        super();
+        this.fileVariables = this.parseFileVariables(fileContent);
+    }
+
+    public setVariable(document: undefined, name: string, value: string) {
+        this.runtimeVariables.set(name, value);
+    }
+
+    protected async getFileVariables(): Promise<FileVariableValue[]> {
+        return this.mergeRuntimeVariables(this.fileVariables, this.runtimeVariables);
+    }
+}
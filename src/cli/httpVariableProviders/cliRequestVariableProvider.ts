@@ -0,0 +1,59 @@
+import * as Constants from '../../common/constants';
+import { HttpResponse } from '../../models/httpResponse';
+import { ResolveErrorMessage, ResolveState, ResolveWarningMessage } from '../../models/httpVariableResolveResult';
+import { VariableType } from '../../models/variableType';
+import { HttpVariable, HttpVariableProvider } from '../../utils/httpVariableProviders/httpVariableProvider';
+import { RequestVariableCacheValueProcessor } from '../../utils/requestVariableCacheValueProcessor';
+
+/**
+ * Resolves request variables from the responses received during the current run
+ */
+export class CliRequestVariableProvider implements HttpVariableProvider {
+    private readonly variableNames = new Set<string>();
+
+    private readonly responses = new Map<string, HttpResponse>();
+
+    public constructor(fileContent: string) {
+        const requestVariableReferenceRegex = new RegExp(Constants.RequestVariableDefinitionWithNameRegexFactory('\\w+'), 'mg');
+        let match: RegExpExecArray | null;
+        while (match = requestVariableReferenceRegex.exec(fileContent)) {
+            this.variableNames.add(match[1]);
+        }
+    }
+
+    public readonly type: VariableType = VariableType.Request;
+
+    public add(name: string, response: HttpResponse) {
+        this.responses.set(name, response);
+    }
+
+    public async has(name: string): Promise<boolean> {
+        const [variableName] = name.trim().split('.');
+        return this.variableNames.has(variableName);
+    }
+
+    public async get(name: string): Promise<HttpVariable> {
+        const [variableName] = name.trim().split('.');
+        if (!this.variableNames.has(variableName)) {
+            return { name: variableName, error: ResolveErrorMessage.RequestVariableNotExist };
+        }
+
+        const value = this.responses.get(variableName);
+        if (value === undefined) {
+            return { name: variableName, warning: ResolveWarningMessage.RequestVariableNotSent };
+        }
+
+        const result = RequestVariableCacheValueProcessor.resolveRequestVariable(value, name);
+        if (result.state === ResolveState.Success) {
+            return { name: variableName, value: result.value };
+        } else if (result.state === ResolveState.Warning) {
+            return { name: variableName, value: result.value, warning: result.message };
+        } else {
+            return { name: variableName, error: result.message };
+        }
+    }
+
+    public async getAll(): Promise<HttpVariable[]> {
+        return [...this.variableNames].map(name => ({ name, value: this.responses.get(name) }));
+    }
+}
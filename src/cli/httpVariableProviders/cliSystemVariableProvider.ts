@@ -0,0 +1,8 @@
+import { BaseSystemVariableProvider } from '../../utils/httpVariableProviders/baseSystemVariableProvider';
+import { HttpVariableProvider } from '../../utils/httpVariableProviders/httpVariableProvider';
+
+export class CliSystemVariableProvider extends BaseSystemVariableProvider {
+    public constructor(protected readonly innerSettingsEnvironmentVariableProvider: HttpVariableProvider) {
+        super();
+    }
+}
@@ -0,0 +1,70 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { formatDataRow, HttpTestReport, RequestTestResult, TestState } from '../models/httpTestResult';
+
+/**
+ * Writes test reports in the JUnit XML format, one test suite per http file
+ */
+export class JUnitReportWriter {
+    public static async write(reports: HttpTestReport[], outputPath: string) {
+        await fs.ensureDir(path.dirname(outputPath));
+        await fs.writeFile(outputPath, this.format(reports), 'utf8');
+    }
+
+    public static format(reports: HttpTestReport[]): string {
+        const count = (results: RequestTestResult[], state: TestState) => results.filter(r => r.state === state).length;
+        const allResults = reports.flatMap(r => r.results);
+        const lines = [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            `<testsuites name="REST Client" tests="${allResults.length}" failures="${count(allResults, TestState.Failed)}" errors="${count(allResults, TestState.Errored)}" skipped="${count(allResults, TestState.Skipped)}" time="${this.toSeconds(reports.reduce((total, r) => total + r.duration, 0))}">`
+        ];
+
+        for (const { fileName, startTime, duration, results } of reports) {
+            const suiteName = path.basename(fileName);
+            lines.push(`  <testsuite name="${this.escape(suiteName)}" tests="${results.length}" failures="${count(results, TestState.Failed)}" errors="${count(results, TestState.Errored)}" skipped="${count(results, TestState.Skipped)}" time="${this.toSeconds(duration)}" timestamp="${new Date(startTime).toISOString()}" file="${this.escape(fileName)}">`);
+            for (const result of results) {
+                lines.push(...this.formatTestCase(suiteName, result));
+            }
+            lines.push('  </testsuite>');
+        }
+
+        lines.push('</testsuites>');
+        return lines.join('\n') + '\n';
+    }
+
+    private static formatTestCase(suiteName: string, result: RequestTestResult): string[] {
+        const { name, method, url, range, state, duration, message, dataRow } = result;
+        const requestName = name ?? (method && url ? `${method} ${url}` : `Request at line ${range[0] + 1}`);
+        const testName = dataRow ? `${requestName} [${formatDataRow(dataRow)}]` : requestName;
+        const openTag = `    <testcase name="${this.escape(testName)}" classname="${this.escape(suiteName)}" time="${this.toSeconds(duration)}"`;
+        switch (state) {
+            case TestState.Passed:
+                return [`${openTag}/>`];
+            case TestState.Skipped:
+                return [`${openTag}>`, `      <skipped message="${this.escape(message ?? '')}"/>`, '    </testcase>'];
+            default:
+                const element = state === TestState.Failed ? 'failure' : 'error';
+                const summary = message?.split('\n')[0] ?? '';
+                return [
+                    `${openTag}>`,
+                    `      <${element} message="${this.escape(summary)}">${this.escape(message ?? '')}</${element}>`,
+                    '    </testcase>'
+                ];
+        }
+    }
+
+    private static toSeconds(milliseconds: number): string {
+        return (milliseconds / 1000).toFixed(3);
+    }
+
+    private static escape(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&apos;')
+            // characters not allowed in XML 1.0
+            .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+    }
+}
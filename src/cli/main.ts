@@ -0,0 +1,144 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as Constants from '../common/constants';
+import { HttpRequestSettings } from '../models/configurationSettings';
+import { FormParamEncodingStrategy } from '../models/formParamEncodingStrategy';
+import { formatDataRow, HttpTestReport, RequestTestResult, TestState } from '../models/httpTestResult';
+import { EnvironmentVariables } from '../utils/httpVariableProviders/baseEnvironmentVariableProvider';
+import { HttpFileRunner } from './httpFileRunner';
+import { JUnitReportWriter } from './junitReportWriter';
+
+const yargsParser = require('yargs-parser');
+
+const usage = `Usage: node dist/cli.js <file...> [options]
+
+Sends all the requests in the given http files in order, and exits with non-zero code if any of them fails.
+
+Options:
+  -e, --env <name>      Name of the environment to use, only the $shared environment is used if omitted
+  --env-file <path>     JSON file of the environments, in the same format as the rest-client.environmentVariables
+                        setting, or a settings.json file which contains that setting
+  --junit <path>        Write the results in JUnit XML format to the given path
+  --timeout <ms>        Timeout of each request in milliseconds, 0 for no timeout (default: 0)
+  --http2               Send the https requests over HTTP/2 if the server supports it, unless the HTTP version
+                        is specified in the request line or with @http-version metadata
+  -u, --update-snapshots
+                        Overwrite the snapshots of the requests with @snapshot metadata with the new responses
+  -h, --help            Show this help message
+`;
+
+class UsageError extends Error {
+}
+
+async function loadEnvironmentVariables(envFile: string | undefined, environmentName: string | undefined): Promise<EnvironmentVariables> {
+    let environments: EnvironmentVariables = {};
+    if (envFile) {
+        if (!(await fs.pathExists(envFile))) {
+            throw new UsageError(`Environment file ${envFile} doesn't exist.`);
+        }
+
+        const content = JSON.parse(await fs.readFile(envFile, 'utf8'));
+        environments = content['rest-client.environmentVariables'] ?? content;
+    }
+
+    if (environmentName && !(environmentName in environments)) {
+        throw new UsageError(`Environment "${environmentName}" is not found${envFile ? ` in ${envFile}` : ''}.`);
+    }
+
+    return { [Constants.SharedEnvironmentName]: {}, ...environments };
+}
+
+function getResultTitle({ name, method, url, response, dataRow }: RequestTestResult): string {
+    const request = method && url ? `${method} ${url}` : 'Unknown request';
+    const status = response ? ` - ${response.statusCode} ${response.statusMessage}` : '';
+    return `${name ? `${name}: ` : ''}${request}${status}${dataRow ? ` [${formatDataRow(dataRow)}]` : ''}`;
+}
+
+function writeResult(result: RequestTestResult) {
+    const symbol = result.state === TestState.Passed ? '✓' : result.state === TestState.Skipped ? '-' : '✗';
+    const lines = [`  ${symbol} ${getResultTitle(result)} (line ${result.range[0] + 1}, ${result.duration}ms)`];
+    for (const { passed, assertion, message } of result.assertionResults) {
+        lines.push(`      ${passed ? '✓' : '✗'} ${assertion.text}${message ? ` - ${message}` : ''}`);
+    }
+    if (result.message && result.assertionResults.length === 0) {
+        lines.push(...result.message.split('\n').map(l => `      ${l}`));
+    }
+    process.stdout.write(`${lines.join('\n')}\n`);
+}
+
+function writeSummary(reports: HttpTestReport[]) {
+    const results = reports.flatMap(r => r.results);
+    const count = (state: TestState) => results.filter(r => r.state === state).length;
+    const duration = reports.reduce((total, r) => total + r.duration, 0);
+    process.stdout.write(`Passed: ${count(TestState.Passed)}, Failed: ${count(TestState.Failed)}, Errored: ${count(TestState.Errored)}, Skipped: ${count(TestState.Skipped)}, Total: ${results.length} in ${duration}ms\n`);
+}
+
+async function main(argv: string[]): Promise<number> {
+    const args = yargsParser(argv, {
+        string: ['env', 'env-file', 'junit'],
+        number: ['timeout'],
+        boolean: ['help', 'update-snapshots', 'http2'],
+        alias: { env: 'e', help: 'h', 'update-snapshots': 'u' }
+    });
+
+    const files: string[] = args._.map(String);
+    if (args.help || files.length === 0) {
+        process.stdout.write(usage);
+        return args.help ? 0 : 2;
+    }
+
+    const timeout = args.timeout ?? 0;
+    if (!Number.isInteger(timeout) || timeout < 0) {
+        throw new UsageError('Timeout should be a non-negative integer.');
+    }
+
+    for (const file of files) {
+        if (!(await fs.pathExists(file))) {
+            throw new UsageError(`File ${file} doesn't exist.`);
+        }
+    }
+
+    const settings: HttpRequestSettings = {
+        followRedirect: true,
+        defaultHeaders: { 'User-Agent': 'vscode-restclient' },
+        timeoutInMilliseconds: timeout,
+        proxyStrictSSL: false,
+        rememberCookiesForSubsequentRequests: true,
+        excludeHostsForProxy: [],
+        hostCertificates: {},
+        formParamEncodingStrategy: FormParamEncodingStrategy.Automatic,
+        decodeEscapedUnicodeCharacters: false,
+        enableHttp2: args.http2
+    };
+    const environmentName: string | undefined = args.env;
+    const runner = new HttpFileRunner({
+        environmentName: environmentName ?? Constants.NoEnvironmentSelectedName,
+        environmentVariables: await loadEnvironmentVariables(args['env-file'], environmentName),
+        settings,
+        updateSnapshots: args['update-snapshots']
+    });
+
+    const reports: HttpTestReport[] = [];
+    for (const file of files) {
+        process.stdout.write(`${path.relative(process.cwd(), file) || file}${environmentName ? ` (environment: ${environmentName})` : ''}\n`);
+        reports.push(await runner.run(path.resolve(file), writeResult));
+        process.stdout.write('\n');
+    }
+
+    writeSummary(reports);
+
+    if (args.junit) {
+        await JUnitReportWriter.write(reports, args.junit);
+        process.stdout.write(`JUnit report is written to ${args.junit}\n`);
+    }
+
+    const failed = reports.some(r => r.results.some(result => result.state === TestState.Failed || result.state === TestState.Errored));
+    return failed ? 1 : 0;
+}
+
+main(process.argv.slice(2)).then(
+    code => process.exit(code),
+    error => {
+        process.stderr.write(`${error instanceof UsageError ? error.message : error.stack ?? error}\n`);
+        process.exit(error instanceof UsageError ? 2 : 1);
+    });
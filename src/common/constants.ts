@@ -3,6 +3,10 @@ export const ExtensionId: string = 'humao.rest-client';
 export const AiKey: string = 'ad746e27-4a36-441c-8b94-5db178f81ae3';
 
 export const NoEnvironmentSelectedName: string = 'c0cfe680-4fcd-4b71-a4ba-8cfaee57680a';
+export const SharedEnvironmentName: string = '$shared';
+
+export const WebSocketRequestMethod: string = 'WEBSOCKET';
+export const GrpcRequestMethod: string = 'GRPC';
 
 export const TimeStampVariableName = "$timestamp";
 export const TimeStampVariableDescription = "Add a number of milliseconds between 1970/1/1 UTC Time and now. \
@@ -28,6 +32,11 @@ export const OidcVariableName = "$oidcAccessToken";
 export const OidcDescription = "Prompts to sign in to an Oidc provider and adds the token to the request";
 export const OIdcForceNewOption = "new";
 
+export const OAuth2VariableName = "$oauth2";
+export const OAuth2Description = "Acquires the access token of the OAuth 2.0 profile defined in the current environment and adds it to the request";
+export const OAuth2ProfilesName = "$oauth2";
+export const SigningProfilesName = "$signing";
+
 
 /**
  * NOTE: The client id represents an AAD app people sign in to. The client id is sent to AAD to indicate what app
@@ -77,4 +86,11 @@ export const RequestVariableDefinitionRegex: RegExp = RequestVariableDefinitionW
 
 export const PromptCommentRegex = /^\s*(?:#{1,}|\/{2,})\s*@prompt\s+([^\s]+)(?:\s+(.*))?\s*$/;
 
-export const LineSplitterRegex: RegExp = /\r?\n/g;
\ No newline at end of file
+export const LineSplitterRegex: RegExp = /\r?\n/g;
+export const ResponseHandlerStartRegex: RegExp = /^\s*>\s*\{%(.*)$/;
+
+export const ResponseHandlerEndRegex: RegExp = /^(.*?)%\}\s*$/;
+
+export const PreRequestScriptStartRegex: RegExp = /^\s*<\s*\{%(.*)$/;
+
+export const PreRequestScriptEndRegex: RegExp = /^(.*?)%\}\s*$/;
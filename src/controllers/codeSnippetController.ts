@@ -6,10 +6,12 @@ import { IRestClientSettings, RequestSettings, RestClientSettings } from '../mod
 import { HARCookie, HARHeader, HARHttpRequest, HARPostData } from '../models/harHttpRequest';
 import { HttpRequest } from '../models/httpRequest';
 import { RequestParserFactory } from '../models/requestParserFactory';
+import { AuthProviderRegistry } from '../utils/auth/authProvider';
+import { basicAuthProvider, encodeBasicCredentials } from '../utils/auth/basic';
 import { trace } from "../utils/decorator";
-import { base64 } from '../utils/misc';
 import { Selector } from '../utils/selector';
 import { Telemetry } from '../utils/telemetry';
+import { WorkspaceRequestHost } from '../utils/workspaceRequestHost';
 import { getCurrentTextDocument } from '../utils/workspaceUtility';
 import { CodeSnippetWebview } from '../views/codeSnippetWebview';
 
@@ -56,7 +58,7 @@ export class CodeSnippetController {
         const settings: IRestClientSettings = new RestClientSettings(requestSettings);
 
         // parse http request
-        const httpRequest = await RequestParserFactory.createRequestParser(text, settings).parseHttpRequest();
+        const httpRequest = await RequestParserFactory.createRequestParser(text, settings, WorkspaceRequestHost.Instance).parseHttpRequest();
 
         const harHttpRequest = this.convertToHARHttpRequest(httpRequest);
         const snippet = new HTTPSnippet(harHttpRequest);
@@ -128,7 +130,7 @@ export class CodeSnippetController {
         const settings: IRestClientSettings = new RestClientSettings(requestSettings);
 
         // parse http request
-        const httpRequest = await RequestParserFactory.createRequestParser(text, settings).parseHttpRequest();
+        const httpRequest = await RequestParserFactory.createRequestParser(text, settings, WorkspaceRequestHost.Instance).parseHttpRequest();
 
         const harHttpRequest = this.convertToHARHttpRequest(httpRequest);
         const addPrefix = !(url.parse(harHttpRequest.url).protocol);
@@ -194,16 +196,10 @@ export class CodeSnippetController {
 
     private static normalizeAuthHeader(authHeader: string) {
         if (authHeader) {
-            const start = authHeader.indexOf(' ');
-            const scheme = authHeader.substr(0, start);
-            if (scheme.toLowerCase() === 'basic') {
-                const params = authHeader.substr(start).trim().split(' ');
-                if (params.length === 2) {
-                    return `Basic ${base64(`${params[0]}:${params[1]}`)}`;
-                } else if (params.length === 1 && params[0].includes(':')) {
-                    const [user, password] = params[0].split(':');
-                    return `Basic ${base64(`${user}:${password}`)}`;
-                }
+            const { scheme, parameters } = AuthProviderRegistry.split(authHeader);
+            const credentials = scheme.toLowerCase() === 'basic' ? basicAuthProvider.parse(parameters) : undefined;
+            if (credentials) {
+                return encodeBasicCredentials(credentials);
             }
         }
 
@@ -0,0 +1,260 @@
+import { EOL } from 'os';
+import * as path from 'path';
+import { CancellationToken, Disposable, Location, Range, TestController, TestItem, TestItemCollection, TestMessage, TestRun, TestRunProfileKind, TestRunRequest, tests, TestTag, TextDocument, Uri, workspace } from 'vscode';
+import * as Constants from '../common/constants';
+import { formatDataRow, RequestTestResult, TestState } from '../models/httpTestResult';
+import { RequestMetadata } from '../models/requestMetadata';
+import { AssertionOperator } from '../models/responseAssertion';
+import { disposeAll } from '../utils/dispose';
+import { HttpTestRunner } from '../utils/httpTestRunner';
+import { formatHeaders } from '../utils/misc';
+import { Selector } from '../utils/selector';
+
+export class HttpTestExplorerController {
+    private static readonly filePattern = '**/*.{http,rest}';
+
+    private static readonly requestMethodRegex = /^\s*(GET|POST|PUT|DELETE|PATCH|HEAD|OPTIONS|CONNECT|TRACE|LOCK|UNLOCK|PROPFIND|PROPPATCH|COPY|MOVE|MKCOL|MKCALENDAR|ACL|SEARCH|WEBSOCKET|GRPC)\s+/i;
+
+    private readonly controller: TestController;
+
+    private readonly runner: HttpTestRunner = new HttpTestRunner();
+
+    private readonly requestRanges = new WeakMap<TestItem, [number, number]>();
+
+    private readonly disposables: Disposable[] = [];
+
+    public constructor() {
+        this.controller = tests.createTestController('rest-client', 'REST Client');
+        this.controller.resolveHandler = async item => {
+            if (!item) {
+                await this.discoverWorkspaceFiles();
+            }
+        };
+        this.controller.refreshHandler = () => this.discoverWorkspaceFiles();
+        this.controller.createRunProfile('Run', TestRunProfileKind.Run, (request, token) => this.runTests(request, token, false), true);
+        this.controller.createRunProfile('Debug', TestRunProfileKind.Debug, (request, token) => this.runTests(request, token, true), true);
+
+        const watcher = workspace.createFileSystemWatcher(HttpTestExplorerController.filePattern);
+        this.disposables.push(
+            this.controller,
+            watcher,
+            watcher.onDidCreate(uri => this.updateFromFile(uri)),
+            watcher.onDidChange(uri => this.updateFromFile(uri)),
+            watcher.onDidDelete(uri => this.deleteFile(uri)),
+            workspace.onDidOpenTextDocument(document => this.updateFromDocument(document)),
+            workspace.onDidChangeTextDocument(event => this.updateFromDocument(event.document)));
+
+        workspace.textDocuments.forEach(document => this.updateFromDocument(document));
+    }
+
+    public dispose() {
+        disposeAll(this.disposables);
+    }
+
+    private async discoverWorkspaceFiles() {
+        const files = await workspace.findFiles(HttpTestExplorerController.filePattern, '**/node_modules/**');
+        await Promise.all(files.map(uri => this.updateFromFile(uri)));
+    }
+
+    private async updateFromFile(uri: Uri) {
+        const document = workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+        if (document) {
+            this.updateFromDocument(document);
+            return;
+        }
+
+        try {
+            const content = Buffer.from(await workspace.fs.readFile(uri)).toString();
+            this.updateRequestItems(uri, content);
+        } catch {
+            this.deleteFile(uri);
+        }
+    }
+
+    private updateFromDocument(document: TextDocument) {
+        if (document.uri.scheme !== 'file' || document.languageId !== 'http') {
+            return;
+        }
+
+        this.updateRequestItems(document.uri, document.getText());
+    }
+
+    private updateRequestItems(uri: Uri, content: string) {
+        const lines = content.split(Constants.LineSplitterRegex);
+        const ranges = Selector.getRequestRanges(lines);
+        if (ranges.length === 0) {
+            this.deleteFile(uri);
+            return;
+        }
+
+        const fileItem = this.getOrCreateFileItem(uri);
+        const items = ranges.map(([start, end]) => {
+            const blockText = Selector.getDelimitedText(content, start) ?? '';
+            const name = Selector.parseReqMetadatas(blockText.split(Constants.LineSplitterRegex)).get(RequestMetadata.Name);
+            const requestLine = lines[start].trim();
+            const method = (HttpTestExplorerController.requestMethodRegex.exec(requestLine)?.[1] ?? 'GET').toUpperCase();
+            const item = this.controller.createTestItem(`${uri.toString()}#L${start + 1}`, name || requestLine, uri);
+            item.range = new Range(start, 0, end, lines[end].length);
+            item.description = name ? requestLine : undefined;
+            item.tags = [new TestTag(method)];
+            this.requestRanges.set(item, [start, end]);
+            return item;
+        });
+        fileItem.children.replace(items);
+    }
+
+    private getOrCreateFileItem(uri: Uri): TestItem {
+        const workspaceFolder = workspace.getWorkspaceFolder(uri);
+        const segments = workspaceFolder
+            ? path.relative(workspaceFolder.uri.fsPath, uri.fsPath).split(path.sep)
+            : [path.basename(uri.fsPath)];
+
+        let collection = this.controller.items;
+        let folderUri = workspaceFolder?.uri;
+        if (workspaceFolder && (workspace.workspaceFolders?.length ?? 0) > 1) {
+            collection = this.getOrCreateItem(collection, workspaceFolder.uri, workspaceFolder.name).children;
+        }
+
+        for (const segment of segments.slice(0, -1)) {
+            folderUri = Uri.joinPath(folderUri!, segment);
+            collection = this.getOrCreateItem(collection, folderUri, segment).children;
+        }
+
+        return this.getOrCreateItem(collection, uri, segments[segments.length - 1]);
+    }
+
+    private getOrCreateItem(collection: TestItemCollection, uri: Uri, label: string): TestItem {
+        let item = collection.get(uri.toString());
+        if (!item) {
+            item = this.controller.createTestItem(uri.toString(), label, uri);
+            collection.add(item);
+        }
+
+        return item;
+    }
+
+    private deleteFile(uri: Uri) {
+        const removeFrom = (collection: TestItemCollection): boolean => {
+            if (collection.get(uri.toString())) {
+                collection.delete(uri.toString());
+                return true;
+            }
+
+            let removed = false;
+            collection.forEach(item => {
+                if (!removed && !this.requestRanges.has(item) && removeFrom(item.children)) {
+                    removed = true;
+                    if (item.children.size === 0) {
+                        collection.delete(item.id);
+                    }
+                }
+            });
+            return removed;
+        };
+
+        removeFrom(this.controller.items);
+    }
+
+    private async runTests(request: TestRunRequest, token: CancellationToken, debug: boolean) {
+        const run = this.controller.createTestRun(request);
+        const queue = new Map<string, TestItem[]>();
+        const enqueue = (item: TestItem) => {
+            if (request.exclude?.includes(item)) {
+                return;
+            }
+
+            if (this.requestRanges.has(item)) {
+                const key = item.uri!.toString();
+                queue.set(key, [...(queue.get(key) ?? []), item]);
+                run.enqueued(item);
+            } else {
+                item.children.forEach(enqueue);
+            }
+        };
+
+        if (request.include) {
+            request.include.forEach(enqueue);
+        } else {
+            this.controller.items.forEach(enqueue);
+        }
+
+        try {
+            for (const items of queue.values()) {
+                // Run requests of the same file in order, so that the named requests are sent before referenced
+                items.sort((a, b) => this.requestRanges.get(a)![0] - this.requestRanges.get(b)![0]);
+                const document = await workspace.openTextDocument(items[0].uri!);
+                for (const item of items) {
+                    if (token.isCancellationRequested) {
+                        run.skipped(item);
+                        continue;
+                    }
+
+                    run.started(item);
+                    const results = await this.runner.runRequest(document, this.requestRanges.get(item)!, token);
+                    if (debug) {
+                        results.forEach(result => this.appendExchangeOutput(run, item, result));
+                    }
+                    this.reportResult(run, item, results);
+                }
+            }
+        } finally {
+            run.end();
+        }
+    }
+
+    /**
+     * Reports the results of a request, which has one result for each data row if it's data-driven, the request fails
+     * if any of its results fails
+     */
+    private reportResult(run: TestRun, item: TestItem, results: RequestTestResult[]) {
+        const location = new Location(item.uri!, item.range!);
+        const duration = results.reduce((total, r) => total + r.duration, 0);
+        const messages = results.flatMap(r => this.getFailureMessages(r));
+        messages.forEach(m => m.location = location);
+        if (results.some(r => r.state === TestState.Errored)) {
+            run.errored(item, messages, duration);
+        } else if (results.some(r => r.state === TestState.Failed)) {
+            run.failed(item, messages, duration);
+        } else if (results.some(r => r.state === TestState.Skipped)) {
+            run.skipped(item);
+        } else {
+            run.passed(item, duration);
+        }
+    }
+
+    private getFailureMessages({ state, assertionResults, message, dataRow }: RequestTestResult): TestMessage[] {
+        const prefix = dataRow ? `[${formatDataRow(dataRow)}] ` : '';
+        switch (state) {
+            case TestState.Failed:
+                const failures = assertionResults.filter(r => !r.passed);
+                return failures.length === 0
+                    ? [new TestMessage(`${prefix}${message ?? 'Request failed'}`)]
+                    : failures.map(({ assertion, actual, message }) => {
+                        const text = `${prefix}${assertion.text}: ${message}`;
+                        return assertion.operator === AssertionOperator.Equal && actual !== undefined
+                            ? TestMessage.diff(text, assertion.expected ?? '', actual)
+                            : new TestMessage(text);
+                    });
+            case TestState.Errored:
+                return [new TestMessage(`${prefix}${message ?? 'Failed to send request'}`)];
+            default:
+                return [];
+        }
+    }
+
+    private appendExchangeOutput(run: TestRun, item: TestItem, { method, url, response, message }: RequestTestResult) {
+        const lines = [`${method ?? ''} ${url ?? ''}`.trim()];
+        if (response) {
+            lines.push(
+                '',
+                `HTTP/${response.httpVersion} ${response.statusCode} ${response.statusMessage}`,
+                formatHeaders(response.headers).trimEnd(),
+                '',
+                response.body);
+        } else if (message) {
+            lines.push(message);
+        }
+
+        run.appendOutput(`${lines.join(EOL).replace(/\r?\n/g, '\r\n')}\r\n\r\n`, new Location(item.uri!, item.range!), item);
+    }
+}
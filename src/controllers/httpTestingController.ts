@@ -1,92 +1,98 @@
-import * as vscode from 'vscode';
-import { trace } from "../utils/decorator";
-import * as fs from 'fs';
+import { EOL } from 'os';
 import * as path from 'path';
-import * as Constants from '../common/constants';
-import { QuickPickItem } from 'vscode';
-import { SystemSettings } from '../models/configurationSettings';
-import { UserDataManager } from '../utils/userDataManager';
-
-type EnvironmentPickItem = QuickPickItem & { name: string };
+import { OutputChannel, ProgressLocation, window } from 'vscode';
+import { formatDataRow, HttpTestReport, RequestTestResult, TestState } from '../models/httpTestResult';
+import { trace } from "../utils/decorator";
+import { HttpTestRunner } from '../utils/httpTestRunner';
 
 export class HttpTestingController {
-    private static readonly noEnvironmentPickItem: EnvironmentPickItem = {
-        label: 'No Environment',
-        name: Constants.NoEnvironmentSelectedName,
-        description: 'You can still use variables defined in the $shared environment'
-    };
-    private readonly settings: SystemSettings = SystemSettings.Instance;
-    // Helper function to filter out auto_fetch_token_data
-    private filterEnvironmentVars(vars: any): any {
-        const filtered = { ...vars };
-        delete filtered.auto_fetch_token_data;
-        return filtered;
-    }
+    private readonly runner: HttpTestRunner = new HttpTestRunner();
+
+    private readonly outputChannel: OutputChannel = window.createOutputChannel('REST Test');
+
     @trace('HTTP Testing')
     public async runHttpTest() {
-        const activeEditor = vscode.window.activeTextEditor;
+        const activeEditor = window.activeTextEditor;
         if (!activeEditor) {
-            vscode.window.showErrorMessage('No active editor found.');
+            window.showErrorMessage('No active editor found.');
             return;
         }
 
         const document = activeEditor.document;
-        const fileName = document.fileName;
+        if (document.languageId !== 'http') {
+            window.showErrorMessage('The active file is not an http file.');
+            return;
+        }
 
-        if (!fileName.endsWith('.http')) {
-            vscode.window.showErrorMessage('The active file is not an .http file.');
+        const total = HttpTestRunner.getRequestRanges(document).length;
+        if (total === 0) {
+            window.showWarningMessage('No request is found in the active file.');
             return;
         }
 
-        try {
-            // Get current environment
-            const currentEnvironment = await HttpTestingController.getCurrentEnvironment();
+        const report = await window.withProgress(
+            {
+                location: ProgressLocation.Notification,
+                title: `Running HTTP tests in ${path.basename(document.fileName)}`,
+                cancellable: true
+            },
+            (progress, token) => this.runner.runAll(document, token, result => {
+                progress.report({ increment: 100 / total, message: HttpTestingController.getResultTitle(result) });
+            }));
 
-            // Merge $shared and current environment variables, excluding auto_fetch_token_data
-            const sharedVars = this.filterEnvironmentVars(this.settings.environmentVariables['$shared'] || {});
-            const currentEnvVars = currentEnvironment.name !== Constants.NoEnvironmentSelectedName
-                ? this.filterEnvironmentVars(this.settings.environmentVariables[currentEnvironment.name] || {})
-                : {};
+        this.showReport(report);
+    }
 
-            // Combine variables with current environment taking precedence
-            const combinedVars = {
-                ...sharedVars,
-                ...currentEnvVars
-            };
+    public static async create(): Promise<HttpTestingController> {
+        return new HttpTestingController();
+    }
 
-            // Create variables.json with combined values
-            const variablesPath = path.join(path.dirname(fileName), 'variables.json');
-            await fs.promises.writeFile(
-                variablesPath,
-                JSON.stringify(combinedVars, null, 2),
-                'utf8'
-            );
+    public dispose() {
+        this.outputChannel.dispose();
+    }
 
-            // Try to find existing HTTP Test terminal
-            let terminal = vscode.window.terminals.find(t => t.name === 'HTTP Test');
+    private showReport(report: HttpTestReport) {
+        const count = (state: TestState) => report.results.filter(r => r.state === state).length;
+        const [passed, failed, errored, skipped] = [TestState.Passed, TestState.Failed, TestState.Errored, TestState.Skipped].map(count);
 
-            if (terminal) {
-                terminal.show();
-                terminal.sendText('cls', true); // Use 'clear' for non-Windows
-                terminal.sendText(`http-test "${fileName}"`, true);
-            } else {
-                terminal = vscode.window.createTerminal('HTTP Test');
-                terminal.show();
-                terminal.sendText(`http-test "${fileName}"`, true);
+        this.outputChannel.clear();
+        this.outputChannel.appendLine(`HTTP test report of ${report.fileName} (${new Date(report.startTime).toLocaleString()})`);
+        this.outputChannel.appendLine('');
+        for (const result of report.results) {
+            this.outputChannel.appendLine(`${HttpTestingController.getStateSymbol(result.state)} ${HttpTestingController.getResultTitle(result)} (line ${result.range[0] + 1}, ${result.duration}ms)`);
+            for (const { passed, assertion, message } of result.assertionResults) {
+                this.outputChannel.appendLine(`    ${passed ? '✓' : '✗'} ${assertion.text}${message ? ` - ${message}` : ''}`);
             }
+            if (result.message && result.assertionResults.length === 0) {
+                this.outputChannel.appendLine(`    ${result.message.split('\n').join(`${EOL}    `)}`);
+            }
+        }
+        this.outputChannel.appendLine('');
+        this.outputChannel.appendLine(`Passed: ${passed}, Failed: ${failed}, Errored: ${errored}, Skipped: ${skipped}, Total: ${report.results.length} in ${report.duration}ms`);
+        this.outputChannel.show(true);
 
-        } catch (error) {
-            vscode.window.showErrorMessage(`Failed to create variables.json: ${error instanceof Error ? error.message : String(error)}`);
-            return;
+        const summary = `HTTP tests finished: ${passed} passed, ${failed + errored} failed, ${skipped} skipped.`;
+        if (failed + errored > 0) {
+            window.showErrorMessage(summary);
+        } else {
+            window.showInformationMessage(summary);
         }
     }
 
-    public static async create(): Promise<HttpTestingController> {
-        return new HttpTestingController();
+    private static getResultTitle({ name, method, url, response, dataRow }: RequestTestResult): string {
+        const request = method && url ? `${method} ${url}` : 'Unknown request';
+        const status = response ? ` - ${response.statusCode} ${response.statusMessage}` : '';
+        return `${name ? `${name}: ` : ''}${request}${status}${dataRow ? ` [${formatDataRow(dataRow)}]` : ''}`;
     }
 
-    private static async getCurrentEnvironment(): Promise<EnvironmentPickItem> {
-        const currentEnvironment = await UserDataManager.getEnvironment() as EnvironmentPickItem | undefined;
-        return currentEnvironment || this.noEnvironmentPickItem;
+    private static getStateSymbol(state: TestState): string {
+        switch (state) {
+            case TestState.Passed:
+                return '✓';
+            case TestState.Skipped:
+                return '-';
+            default:
+                return '✗';
+        }
     }
-}
\ No newline at end of file
+}
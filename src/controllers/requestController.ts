@@ -1,33 +1,64 @@
-import { ExtensionContext, Range, TextDocument, ViewColumn, window } from 'vscode';
+import { CancellationToken, CancellationTokenSource, ExtensionContext, Range, TextDocument, ViewColumn, window } from 'vscode';
+import * as Constants from '../common/constants';
 import Logger from '../logger';
-import { IRestClientSettings, RequestSettings, RestClientSettings } from '../models/configurationSettings';
+import { IRestClientSettings, RequestSettings, RestClientSettings, SystemSettings } from '../models/configurationSettings';
 import { HistoricalHttpRequest, HttpRequest } from '../models/httpRequest';
+import { HttpResponse } from '../models/httpResponse';
+import { RequestTestResult, TestState } from '../models/httpTestResult';
 import { RequestMetadata } from '../models/requestMetadata';
-import { RequestParserFactory } from '../models/requestParserFactory';
+import { AssertionResult } from '../models/responseAssertion';
+import { ResponseSnapshot } from '../models/responseSnapshot';
+import { SelectedRequest } from '../models/SelectedRequest';
+import { StreamingMessageType, StreamingSession } from '../models/streamingSession';
 import { trace } from "../utils/decorator";
+import { GraphQlSubscriptionSession } from '../utils/graphql/graphQlSubscriptionSession';
+import { getGraphQlPayload, isGraphQlSubscription } from '../utils/graphql/graphQlUtility';
 import { HttpClient } from '../utils/httpClient';
+import { HttpTestRunner } from '../utils/httpTestRunner';
+import { MimeUtility } from '../utils/mimeUtility';
+import { getContentType } from '../utils/misc';
+import { prepareRequest } from '../utils/requestPreparer';
 import { RequestState, RequestStatusEntry } from '../utils/requestStatusBarEntry';
 import { RequestVariableCache } from "../utils/requestVariableCache";
+import { ResponseAssertionProcessor } from '../utils/responseAssertionProcessor';
+import { ResponseHistory } from '../utils/responseHistory';
+import { ResponseSnapshotProcessor } from '../utils/responseSnapshotProcessor';
+import { ResponseStreamSession } from '../utils/responseStreamSession';
 import { Selector } from '../utils/selector';
+import { convertStreamToString } from '../utils/streamUtility';
 import { UserDataManager } from '../utils/userDataManager';
+import { VariableProcessor } from '../utils/variableProcessor';
+import { WebSocketSession } from '../utils/webSocketSession';
+import { WorkspaceRequestHost } from '../utils/workspaceRequestHost';
 import { getCurrentTextDocument } from '../utils/workspaceUtility';
+import { BatchResponseWebview } from '../views/batchResponseWebview';
 import { HttpResponseTextDocumentView } from '../views/httpResponseTextDocumentView';
 import { HttpResponseWebview } from '../views/httpResponseWebview';
+import { StreamingResponseWebview } from '../views/streamingResponseWebview';
 
 export class RequestController {
     private _requestStatusEntry: RequestStatusEntry;
     private _httpClient: HttpClient;
+    private _testRunner: HttpTestRunner;
     private _webview: HttpResponseWebview;
+    private _batchWebview: BatchResponseWebview;
     private _textDocumentView: HttpResponseTextDocumentView;
     private _lastRequestSettingTuple: [HttpRequest, IRestClientSettings];
     private _lastPendingRequest?: HttpRequest;
+    private _batchCancellation?: CancellationTokenSource;
+    private _streamingWebview: StreamingResponseWebview;
+    private _lastStreamingSessionTuple?: [StreamingSession, HttpRequest];
 
     public constructor(context: ExtensionContext) {
         this._requestStatusEntry = new RequestStatusEntry();
         this._httpClient = new HttpClient();
+        this._testRunner = new HttpTestRunner(this._httpClient);
         this._webview = new HttpResponseWebview(context);
         this._webview.onDidCloseAllWebviewPanels(() => this._requestStatusEntry.update({ state: RequestState.Closed }));
         this._textDocumentView = new HttpResponseTextDocumentView();
+        this._batchWebview = new BatchResponseWebview(context);
+        this._batchWebview.onDidSelectResult(({ response }) => this._webview.render(response!, ViewColumn.Beside));
+        this._streamingWebview = new StreamingResponseWebview(context);
     }
 
     @trace('Request')
@@ -38,12 +69,47 @@ export class RequestController {
             return;
         }
 
-        const selectedRequest = await Selector.getRequest(editor, range);
+        const selectedText = Selector.getSelectedText(editor, range);
+        if (selectedText === null) {
+            return;
+        }
+
+        // send the named requests this request depends on first
+        if (SystemSettings.Instance.autoRunRequestDependencies) {
+            try {
+                await this._testRunner.runDependencies(document, selectedText);
+            } catch (error) {
+                this._requestStatusEntry.update({ state: RequestState.Error });
+                Logger.error('Failed to send dependent requests:', error);
+                window.showErrorMessage(error.message);
+                return;
+            }
+        }
+
+        // send the data-driven request once per data row
+        const requestMetadatas = Selector.parseReqMetadatas(selectedText.split(Constants.LineSplitterRegex));
+        if (requestMetadatas.has(RequestMetadata.Data)) {
+            const line = range?.start.line ?? editor.selection.active.line;
+            const requestRange = HttpTestRunner.getRequestRanges(document).find(([start, end]) => start <= line && line <= end) ?? [line, line];
+            await this.runBatch(document, [requestRange]);
+            return;
+        }
+
+        // malformed metadata like @assert lines fail the parsing
+        let selectedRequest: SelectedRequest | null;
+        try {
+            selectedRequest = await Selector.getRequestFromText(selectedText, document);
+        } catch (error) {
+            Logger.error('Failed to parse request:', error);
+            window.showErrorMessage(error.message);
+            return;
+        }
+
         if (!selectedRequest) {
             return;
         }
 
-        const { text, metadatas } = selectedRequest;
+        const { metadatas } = selectedRequest;
         const name = metadatas.get(RequestMetadata.Name);
 
         if (metadatas.has(RequestMetadata.Note)) {
@@ -57,8 +123,15 @@ export class RequestController {
         const requestSettings = new RequestSettings(metadatas);
         const settings: IRestClientSettings = new RestClientSettings(requestSettings);
 
-        // parse http request
-        const httpRequest = await RequestParserFactory.createRequestParser(text, settings).parseHttpRequest(name);
+        // parse http request and run its pre-request script
+        let httpRequest: HttpRequest;
+        try {
+            httpRequest = await prepareRequest(selectedRequest, settings, new WorkspaceRequestHost(document));
+        } catch (error) {
+            Logger.error('Failed to prepare request:', error);
+            window.showErrorMessage(error.message);
+            return;
+        }
 
         await this.runCore(httpRequest, settings, document);
     }
@@ -75,9 +148,43 @@ export class RequestController {
         await this.runCore(request, settings);
     }
 
+    @trace('Run All Requests')
+    public async runAll() {
+        const document = getCurrentTextDocument();
+        if (!document) {
+            return;
+        }
+
+        await this.runBatch(document, HttpTestRunner.getRequestRanges(document));
+    }
+
+    @trace('Run Selected Requests')
+    public async runSelected() {
+        const editor = window.activeTextEditor;
+        const document = getCurrentTextDocument();
+        if (!editor || !document) {
+            return;
+        }
+
+        // a request is selected if any of its lines is covered by any selection
+        const ranges = HttpTestRunner.getRequestRanges(document)
+            .filter(([start, end]) => editor.selections.some(s => s.start.line <= end && s.end.line >= start));
+        await this.runBatch(document, ranges);
+    }
+
     @trace('Cancel Request')
     public async cancel() {
-        this._lastPendingRequest?.cancel();
+        const pendingRequest = this._lastPendingRequest;
+        pendingRequest?.cancel();
+        this._batchCancellation?.cancel();
+
+        // a WebSocket or subscription opened earlier is kept when cancelling the request sent after it
+        if (this._lastStreamingSessionTuple) {
+            const [session, request] = this._lastStreamingSessionTuple;
+            if (request === pendingRequest || (!pendingRequest && !this._batchCancellation)) {
+                session.close();
+            }
+        }
 
         this._requestStatusEntry.update({ state: RequestState.Cancelled });
     }
@@ -89,7 +196,126 @@ export class RequestController {
         }
     }
 
+    private async runBatch(document: TextDocument, ranges: [number, number][]) {
+        if (ranges.length === 0) {
+            window.showWarningMessage('No request is found to send.');
+            return;
+        }
+
+        await this.runRequests(
+            document.fileName,
+            ranges,
+            (index, token) => this._testRunner.runRequest(document, ranges[index], token),
+            SystemSettings.Instance.sendBatchRequestsInParallel);
+    }
+
+    private async runRequests(
+        fileName: string,
+        ranges: [number, number][],
+        send: (index: number, token: CancellationToken) => Promise<RequestTestResult[]>,
+        parallel: boolean) {
+        this._batchCancellation?.cancel();
+        const cancellation = this._batchCancellation = new CancellationTokenSource();
+        const token = cancellation.token;
+
+        const previewColumn = this.getPreviewColumn(SystemSettings.Instance);
+        // the data-driven request of a range has a result for each data row
+        const results: (RequestTestResult[] | undefined)[] = ranges.map(() => undefined);
+        const render = () => this._batchWebview.render(fileName, results.flatMap(r => r ?? [undefined]), previewColumn);
+        const runRequest = async (index: number) => {
+            results[index] = token.isCancellationRequested
+                ? [{ range: ranges[index], state: TestState.Skipped, assertionResults: [], duration: 0, message: 'Request is cancelled' }]
+                : await send(index, token);
+            render();
+        };
+
+        this._requestStatusEntry.update({ state: RequestState.Pending });
+        render();
+        try {
+            if (parallel) {
+                await Promise.all(ranges.map((_, index) => runRequest(index)));
+            } else {
+                for (let index = 0; index < ranges.length; index++) {
+                    await runRequest(index);
+                }
+            }
+        } finally {
+            if (this._batchCancellation === cancellation) {
+                this._batchCancellation = undefined;
+                this._requestStatusEntry.update({ state: token.isCancellationRequested ? RequestState.Cancelled : RequestState.Closed });
+            }
+            cancellation.dispose();
+        }
+    }
+
+    private async connectWebSocket(httpRequest: HttpRequest, settings: IRestClientSettings, document?: TextDocument) {
+        this._lastRequestSettingTuple = [httpRequest, settings];
+
+        const body = httpRequest.body && typeof httpRequest.body !== 'string' ? await convertStreamToString(httpRequest.body) : httpRequest.body;
+        const session = new WebSocketSession(httpRequest, text => VariableProcessor.processRawRequest(text, undefined, document ?? getCurrentTextDocument()));
+        this._lastStreamingSessionTuple = [session, httpRequest];
+        this._streamingWebview.render(session, this.getPreviewColumn(settings));
+
+        this._requestStatusEntry.update({ state: RequestState.Pending });
+        try {
+            await session.connect(WebSocketSession.parseMessages(body), settings.timeoutInMilliseconds);
+            this._requestStatusEntry.update({ state: RequestState.Closed });
+        } catch (error) {
+            this._requestStatusEntry.update({ state: RequestState.Error });
+            Logger.error('Failed to connect WebSocket:', error);
+            window.showErrorMessage(error.message);
+        }
+    }
+
+    private async subscribeGraphQl(httpRequest: HttpRequest, settings: IRestClientSettings) {
+        this._lastRequestSettingTuple = [httpRequest, settings];
+
+        const session = new GraphQlSubscriptionSession(httpRequest, getGraphQlPayload(httpRequest)!);
+        this._lastStreamingSessionTuple = [session, httpRequest];
+        this._streamingWebview.render(session, this.getPreviewColumn(settings));
+
+        this._requestStatusEntry.update({ state: RequestState.Pending });
+        try {
+            await session.connect(settings.timeoutInMilliseconds);
+            this._requestStatusEntry.update({ state: RequestState.Closed });
+        } catch (error) {
+            this._requestStatusEntry.update({ state: RequestState.Error });
+            Logger.error('Failed to start GraphQL subscription:', error);
+            window.showErrorMessage(error.message);
+        }
+    }
+
+    private async checkSnapshot(response: HttpResponse, snapshot: ResponseSnapshot): Promise<AssertionResult> {
+        const result = await ResponseSnapshotProcessor.check(response, snapshot);
+        if (!result.passed && result.actual !== undefined) {
+            window.showWarningMessage(result.message!, 'Update Snapshot').then(async value => {
+                if (value === 'Update Snapshot') {
+                    await ResponseSnapshotProcessor.check(response, snapshot, true);
+                }
+            });
+        }
+
+        return result;
+    }
+
+    private getPreviewColumn(settings: IRestClientSettings): ViewColumn {
+        const activeColumn = window.activeTextEditor!.viewColumn;
+        return settings.previewColumn === ViewColumn.Active
+            ? activeColumn!
+            : ((activeColumn as number) + 1) as ViewColumn;
+    }
+
     private async runCore(httpRequest: HttpRequest, settings: IRestClientSettings, document?: TextDocument) {
+        if (httpRequest.method === Constants.WebSocketRequestMethod) {
+            await this.connectWebSocket(httpRequest, settings, document);
+            return;
+        }
+
+        if (isGraphQlSubscription(httpRequest)) {
+            await this.subscribeGraphQl(httpRequest, settings);
+            return;
+        }
+
         // clear status bar
         this._requestStatusEntry.update({ state: RequestState.Pending });
 
@@ -98,33 +324,55 @@ export class RequestController {
         this._lastRequestSettingTuple = [httpRequest, settings];
 
         // set http request
+        let streamSession: ResponseStreamSession | undefined;
         try {
-            const response = await this._httpClient.send(httpRequest, settings);
+            const response = await this._httpClient.send(httpRequest, settings, new WorkspaceRequestHost(document), (statusCode, statusMessage, headers) => {
+                // show the response body as it arrives for event streams and the requests with @stream metadata
+                const contentType = getContentType(headers);
+                if (!httpRequest.streamResponse && !MimeUtility.isEventStream(contentType)) {
+                    return undefined;
+                }
+
+                const session = streamSession = new ResponseStreamSession(httpRequest, statusCode, statusMessage, contentType);
+                this._lastStreamingSessionTuple = [session, httpRequest];
+                this._streamingWebview.render(session, this.getPreviewColumn(settings));
+                return chunk => session.write(chunk);
+            });
 
             // check cancel
             if (httpRequest.isCancelled) {
                 return;
             }
 
+            streamSession?.end('Response is completed');
+
+            // evaluate response assertions
+            response.assertionResults = ResponseAssertionProcessor.evaluate(response, httpRequest.assertions);
+            if (httpRequest.snapshot) {
+                response.assertionResults.push(await this.checkSnapshot(response, httpRequest.snapshot));
+            }
+
             this._requestStatusEntry.update({ state: RequestState.Received, response });
 
             if (httpRequest.name && document) {
                 RequestVariableCache.add(document, httpRequest.name, response);
             }
 
-            try {
-                const activeColumn = window.activeTextEditor!.viewColumn;
-                const previewColumn = settings.previewColumn === ViewColumn.Active
-                    ? activeColumn
-                    : ((activeColumn as number) + 1) as ViewColumn;
-                if (settings.previewResponseInUntitledDocument) {
-                    this._textDocumentView.render(response, previewColumn);
-                } else if (previewColumn) {
-                    this._webview.render(response, previewColumn);
+            ResponseHistory.add(response);
+
+            // the streamed response is already shown in the streaming view
+            if (!streamSession) {
+                try {
+                    const previewColumn = this.getPreviewColumn(settings);
+                    if (settings.previewResponseInUntitledDocument) {
+                        this._textDocumentView.render(response, previewColumn);
+                    } else if (previewColumn) {
+                        this._webview.render(response, previewColumn);
+                    }
+                } catch (reason) {
+                    Logger.error('Unable to preview response:', reason);
+                    window.showErrorMessage(reason);
                 }
-            } catch (reason) {
-                Logger.error('Unable to preview response:', reason);
-                window.showErrorMessage(reason);
             }
 
             // persist to history json file
@@ -132,9 +380,13 @@ export class RequestController {
         } catch (error) {
             // check cancel
             if (httpRequest.isCancelled) {
+                if (streamSession) {
+                    this._requestStatusEntry.update({ state: RequestState.Cancelled });
+                }
                 return;
             }
 
+            streamSession?.end(error.message, StreamingMessageType.Error);
             if (error.code === 'ETIMEDOUT') {
                 error.message = `Request timed out. Double-check your network connection and/or raise the timeout duration (currently set to ${settings.timeoutInMilliseconds}ms) as needed: 'rest-client.timeoutinmilliseconds'. Details: ${error}.`;
             } else if (error.code === 'ECONNREFUSED') {
@@ -155,5 +407,7 @@ export class RequestController {
     public dispose() {
         this._requestStatusEntry.dispose();
         this._webview.dispose();
+        this._batchWebview.dispose();
+        this._streamingWebview.dispose();
     }
 }
\ No newline at end of file
@@ -0,0 +1,91 @@
+import dayjs from 'dayjs';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { WsdlUtils } from '../utils/wsdlUtils';
+
+export class WsdlController {
+    private wsdlUtils: WsdlUtils;
+
+    public constructor(private context: vscode.ExtensionContext) {
+        this.wsdlUtils = new WsdlUtils();
+    }
+
+    async import() {
+        const existingFiles = this.context.workspaceState.get<{ [fileName: string]: { content: string, timestamp: number } }>('importedWsdlFiles') || {};
+        const importFromFileItem: vscode.QuickPickItem = {
+            label: 'Import from file...',
+            detail: 'Import from WSDL',
+        };
+        const recentImportsItems: vscode.QuickPickItem[] = Object.keys(existingFiles).map((fileName) => ({
+            label: fileName,
+            detail: `${dayjs().to(existingFiles[fileName].timestamp)}`,
+        }));
+        const clearStateItem: vscode.QuickPickItem = {
+            label: 'Clear imported files',
+        };
+        const items = [importFromFileItem, ...recentImportsItems];
+        if (recentImportsItems.length > 0) {
+            items.push(clearStateItem);
+        }
+        const selectedItem = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Select an option',
+        });
+
+        // Handle the user's selection
+        if (selectedItem) {
+            if (selectedItem === importFromFileItem) {
+                const options: vscode.OpenDialogOptions = {
+                    canSelectMany: false,
+                    openLabel: 'Import',
+                    filters: {
+                        'WSDL files': ['wsdl', 'xml'],
+                    },
+                };
+
+                const fileUri = await vscode.window.showOpenDialog(options);
+                if (fileUri && fileUri[0]) {
+                    const fileContent = fs.readFileSync(fileUri[0].fsPath, 'utf8');
+                    const fileName = path.basename(fileUri[0].fsPath);
+                    this.createNewFileWithProcessedContent(fileContent);
+                    this.storeImportedFile(fileName, fileContent);
+                }
+            } else if (selectedItem === clearStateItem) {
+                this.clearImportedFiles();
+                vscode.window.showInformationMessage('Imported files have been cleared.');
+            } else {
+                const selectedFile = selectedItem.label;
+                const fileContent = existingFiles[selectedFile];
+                this.createNewFileWithProcessedContent(fileContent.content);
+            }
+        } else {
+            vscode.window.showInformationMessage('No option selected');
+        }
+    }
+
+    private storeImportedFile(fileName: string, content: string) {
+        const existingFiles = this.context.workspaceState.get<{ [fileName: string]: { content: string, timestamp: number } }>('importedWsdlFiles') || {};
+        existingFiles[fileName] = {
+            content,
+            timestamp: Date.now(),
+        };
+        this.context.workspaceState.update('importedWsdlFiles', existingFiles);
+    }
+
+    private clearImportedFiles() {
+        this.context.workspaceState.update('importedWsdlFiles', {});
+    }
+
+    async createNewFileWithProcessedContent(originalContent: string) {
+        try {
+            const processedContent = this.wsdlUtils.parseWsdl(originalContent);
+            const newFile = await vscode.workspace.openTextDocument({
+                content: processedContent,
+                language: 'http',
+            });
+            vscode.window.showTextDocument(newFile);
+        } catch (error) {
+            vscode.window.showErrorMessage(error.message);
+        }
+    }
+}
@@ -6,14 +6,20 @@ import { CodeSnippetController } from './controllers/codeSnippetController';
 import { EnvironmentController } from './controllers/environmentController';
 import { HttpTestingController } from './controllers/httpTestingController';
 import { HistoryController } from './controllers/historyController';
+import { HttpTestExplorerController } from './controllers/httpTestExplorerController';
 import { RequestController } from './controllers/requestController';
 import { SwaggerController } from './controllers/swaggerController';
+import { WsdlController } from './controllers/wsdlController';
+import { AuthDiagnosticsProvider } from './providers/authDiagnosticsProvider';
 import { CustomVariableDiagnosticsProvider } from "./providers/customVariableDiagnosticsProvider";
 import { RequestBodyDocumentLinkProvider } from './providers/documentLinkProvider';
 import { EnvironmentOrFileVariableHoverProvider } from './providers/environmentOrFileVariableHoverProvider';
 import { FileVariableDefinitionProvider } from './providers/fileVariableDefinitionProvider';
 import { FileVariableReferenceProvider } from './providers/fileVariableReferenceProvider';
 import { FileVariableReferencesCodeLensProvider } from './providers/fileVariableReferencesCodeLensProvider';
+import { GraphQlCompletionItemProvider } from './providers/graphQlCompletionItemProvider';
+import { GraphQlDiagnosticsProvider } from './providers/graphQlDiagnosticsProvider';
+import { GraphQlHoverProvider } from './providers/graphQlHoverProvider';
 import { HttpCodeLensProvider } from './providers/httpCodeLensProvider';
 import { HttpCompletionItemProvider } from './providers/httpCompletionItemProvider';
 import { HttpDocumentSymbolProvider } from './providers/httpDocumentSymbolProvider';
@@ -22,13 +28,27 @@ import { RequestVariableCompletionItemProvider } from "./providers/requestVariab
 import { RequestVariableDefinitionProvider } from './providers/requestVariableDefinitionProvider';
 import { RequestVariableHoverProvider } from './providers/requestVariableHoverProvider';
 import { AadTokenCache } from './utils/aadTokenCache';
+import { OAuth2TokenProvider } from './utils/auth/oauth2TokenProvider';
 import { ConfigurationDependentRegistration } from './utils/dependentRegistration';
+import { GraphQlSchemaProvider } from './utils/graphql/graphQlSchemaProvider';
+import { EnvironmentVariableProvider } from './utils/httpVariableProviders/environmentVariableProvider';
+import { FileVariableProvider } from './utils/httpVariableProviders/fileVariableProvider';
+import { RequestVariableProvider } from './utils/httpVariableProviders/requestVariableProvider';
+import { SystemVariableProvider } from './utils/httpVariableProviders/systemVariableProvider';
 import { UserDataManager } from './utils/userDataManager';
+import { VariableProcessor } from './utils/variableProcessor';
 
 // this method is called when your extension is activated
 // your extension is activated the very first time the command is executed
 export async function activate(context: ExtensionContext) {
     await UserDataManager.initialize();
+    OAuth2TokenProvider.initialize(context.secrets);
+    VariableProcessor.registerProviders([
+        [SystemVariableProvider.Instance, false],
+        [RequestVariableProvider.Instance, true],
+        [FileVariableProvider.Instance, true],
+        [EnvironmentVariableProvider.Instance, true],
+    ]);
 
     const requestController = new RequestController(context);
     const historyController = new HistoryController();
@@ -36,11 +56,17 @@ export async function activate(context: ExtensionContext) {
     const environmentController = await EnvironmentController.create();
     const httpTestingController = await HttpTestingController.create();
     const swaggerController = new SwaggerController(context);
+    const wsdlController = new WsdlController(context);
+    const httpTestExplorerController = new HttpTestExplorerController();
     context.subscriptions.push(requestController);
     context.subscriptions.push(historyController);
     context.subscriptions.push(codeSnippetController);
     context.subscriptions.push(environmentController);
+    context.subscriptions.push(httpTestingController);
+    context.subscriptions.push(httpTestExplorerController);
     context.subscriptions.push(commands.registerCommand('rest-client.request', ((document: TextDocument, range: Range) => requestController.run(range))));
+    context.subscriptions.push(commands.registerCommand('rest-client.run-all-requests', () => requestController.runAll()));
+    context.subscriptions.push(commands.registerCommand('rest-client.run-selected-requests', () => requestController.runSelected()));
     context.subscriptions.push(commands.registerCommand('rest-client.rerun-last-request', () => requestController.rerun()));
     context.subscriptions.push(commands.registerCommand('rest-client.cancel-request', () => requestController.cancel()));
     context.subscriptions.push(commands.registerCommand('rest-client.history', () => historyController.save()));
@@ -50,13 +76,16 @@ export async function activate(context: ExtensionContext) {
     context.subscriptions.push(commands.registerCommand('rest-client.switch-environment', () => environmentController.switchEnvironment()));
     context.subscriptions.push(commands.registerCommand('rest-client.run-http-test', () => httpTestingController.runHttpTest()));
     context.subscriptions.push(commands.registerCommand('rest-client.clear-aad-token-cache', () => AadTokenCache.clear()));
+    context.subscriptions.push(commands.registerCommand('rest-client.clear-oauth2-tokens', () => OAuth2TokenProvider.clear()));
     context.subscriptions.push(commands.registerCommand('rest-client.clear-cookies', () => requestController.clearCookies()));
+    context.subscriptions.push(commands.registerCommand('rest-client.refresh-graphql-schema', () => GraphQlSchemaProvider.refresh()));
     context.subscriptions.push(commands.registerCommand('rest-client._openDocumentLink', args => {
         workspace.openTextDocument(Uri.parse(args.path)).then(window.showTextDocument, error => {
             window.showErrorMessage(error.message);
         });
     }));
     context.subscriptions.push(commands.registerCommand('rest-client.import-swagger', async () => swaggerController.import()));
+    context.subscriptions.push(commands.registerCommand('rest-client.import-wsdl', async () => wsdlController.import()));
 
 
     const documentSelector = [
@@ -71,6 +100,8 @@ export async function activate(context: ExtensionContext) {
     context.subscriptions.push(languages.registerCompletionItemProvider(documentSelector, new RequestVariableCompletionItemProvider(), '.'));
     context.subscriptions.push(languages.registerHoverProvider(documentSelector, new EnvironmentOrFileVariableHoverProvider()));
     context.subscriptions.push(languages.registerHoverProvider(documentSelector, new RequestVariableHoverProvider()));
+    context.subscriptions.push(languages.registerCompletionItemProvider(documentSelector, new GraphQlCompletionItemProvider(), '{', '(', ':', '@', '$'));
+    context.subscriptions.push(languages.registerHoverProvider(documentSelector, new GraphQlHoverProvider()));
     context.subscriptions.push(
         new ConfigurationDependentRegistration(
             () => languages.registerCodeLensProvider(documentSelector, new HttpCodeLensProvider()),
@@ -91,6 +122,8 @@ export async function activate(context: ExtensionContext) {
 
     const diagnosticsProvider = new CustomVariableDiagnosticsProvider();
     context.subscriptions.push(diagnosticsProvider);
+    context.subscriptions.push(new GraphQlDiagnosticsProvider());
+    context.subscriptions.push(new AuthDiagnosticsProvider());
 }
 
 // this method is called when your extension is deactivated
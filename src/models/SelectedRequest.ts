@@ -1,7 +1,13 @@
+import { PreRequestScript } from './preRequestScript';
 import { RequestMetadata } from './requestMetadata';
+import { ResponseAssertion } from './responseAssertion';
 
 export interface SelectedRequest {
     text: string;
 
     metadatas: Map<RequestMetadata, string | undefined>;
+
+    assertions: ResponseAssertion[];
+
+    preRequestScript?: PreRequestScript;
 }
\ No newline at end of file
@@ -50,8 +50,27 @@ export interface IRestClientSettings {
     readonly enableSendRequestCodeLens: boolean;
     readonly enableCustomVariableReferencesCodeLens: boolean;
     readonly useContentDispositionFilename: boolean;
+    readonly autoRunRequestDependencies: boolean;
+    readonly sendBatchRequestsInParallel: boolean;
+    readonly enableHttp2: boolean;
 }
 
+/**
+ * Settings used by the request parsers and the http client, which don't depend on the editor
+ */
+export type HttpRequestSettings = Pick<IRestClientSettings,
+    'followRedirect'
+    | 'defaultHeaders'
+    | 'timeoutInMilliseconds'
+    | 'proxy'
+    | 'proxyStrictSSL'
+    | 'rememberCookiesForSubsequentRequests'
+    | 'excludeHostsForProxy'
+    | 'hostCertificates'
+    | 'formParamEncodingStrategy'
+    | 'decodeEscapedUnicodeCharacters'
+    | 'enableHttp2'>;
+
 export class SystemSettings implements IRestClientSettings {
     private _followRedirect: boolean;
     private _defaultHeaders: RequestHeaders;
@@ -86,6 +105,9 @@ export class SystemSettings implements IRestClientSettings {
     private _enableSendRequestCodeLens: boolean;
     private _enableCustomVariableReferencesCodeLens: boolean;
     private _useContentDispositionFilename: boolean;
+    private _autoRunRequestDependencies: boolean;
+    private _sendBatchRequestsInParallel: boolean;
+    private _enableHttp2: boolean;
 
     public get followRedirect() {
         return this._followRedirect;
@@ -219,6 +241,18 @@ export class SystemSettings implements IRestClientSettings {
         return this._useContentDispositionFilename;
     }
 
+    public get autoRunRequestDependencies() {
+        return this._autoRunRequestDependencies;
+    }
+
+    public get sendBatchRequestsInParallel() {
+        return this._sendBatchRequestsInParallel;
+    }
+
+    public get enableHttp2() {
+        return this._enableHttp2;
+    }
+
     private readonly brackets: CharacterPair[];
 
     private static _instance: SystemSettings;
@@ -295,6 +329,9 @@ export class SystemSettings implements IRestClientSettings {
         this._enableSendRequestCodeLens = restClientSettings.get<boolean>('enableSendRequestCodeLens', true);
         this._enableCustomVariableReferencesCodeLens = restClientSettings.get<boolean>('enableCustomVariableReferencesCodeLens', true);
         this._useContentDispositionFilename = restClientSettings.get<boolean>('useContentDispositionFilename', true);
+        this._autoRunRequestDependencies = restClientSettings.get<boolean>('autoRunRequestDependencies', false);
+        this._sendBatchRequestsInParallel = restClientSettings.get<boolean>('sendBatchRequestsInParallel', false);
+        this._enableHttp2 = restClientSettings.get<boolean>('enableHttp2', false);
         languages.setLanguageConfiguration('http', { brackets: this._addRequestBodyLineIndentationAroundBrackets ? this.brackets : [] });
 
         const httpSettings = workspace.getConfiguration("http");
@@ -471,6 +508,18 @@ export class RestClientSettings implements IRestClientSettings {
         return this.systemSettings.useContentDispositionFilename;
     }
 
+    public get autoRunRequestDependencies() {
+        return this.systemSettings.autoRunRequestDependencies;
+    }
+
+    public get sendBatchRequestsInParallel() {
+        return this.systemSettings.sendBatchRequestsInParallel;
+    }
+
+    public get enableHttp2() {
+        return this.systemSettings.enableHttp2;
+    }
+
     private readonly systemSettings = SystemSettings.Instance;
 
     public constructor(private readonly requestSettings: RequestSettings) {
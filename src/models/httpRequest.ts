@@ -2,10 +2,24 @@ import { CancelableRequest, Response } from 'got';
 import { Stream } from 'stream';
 import { getContentType } from '../utils/misc';
 import { RequestHeaders } from './base';
+import { JsonRpcCall } from './jsonRpc';
+import { ResponseAssertion } from './responseAssertion';
+import { ResponseSnapshot } from './responseSnapshot';
 
 export class HttpRequest {
     public isCancelled: boolean;
-    private _underlyingRequest: CancelableRequest<Response<Buffer>>;
+    public assertions: ResponseAssertion[] = [];
+    public snapshot?: ResponseSnapshot;
+    public streamResponse = false;
+    public httpVersion?: string;
+
+    /**
+     * Version of the `@http-version` metadata, which overrides the one in the request line
+     */
+    public httpVersionMetadata?: string;
+    public socketPath?: string;
+    public jsonRpcCalls?: JsonRpcCall[];
+    private _underlyingRequest: CancelableRequest<Response<Buffer>> | { cancel(): void };
     public constructor(
         public method: string,
         public url: string,
@@ -21,7 +35,7 @@ export class HttpRequest {
         return getContentType(this.headers);
     }
 
-    public setUnderlyingRequest(request: CancelableRequest<Response<Buffer>>): void {
+    public setUnderlyingRequest(request: CancelableRequest<Response<Buffer>> | { cancel(): void }): void {
         this._underlyingRequest = request;
     }
 
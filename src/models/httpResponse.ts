@@ -2,8 +2,14 @@ import { Timings } from '@szmarczak/http-timer';
 import { getContentType } from '../utils/misc';
 import { ResponseHeaders } from './base';
 import { HttpRequest } from "./httpRequest";
+import { JsonRpcResult } from './jsonRpc';
+import { AssertionResult } from './responseAssertion';
 
 export class HttpResponse {
+    public assertionResults: AssertionResult[] = [];
+
+    public jsonRpcResults: JsonRpcResult[] = [];
+
     public constructor(
         public statusCode: number,
         public statusMessage: string,
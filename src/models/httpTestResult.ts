@@ -0,0 +1,84 @@
+import { DataRow } from '../utils/dataFileParser';
+import { HttpResponse } from './httpResponse';
+import { AssertionResult } from './responseAssertion';
+
+export enum TestState {
+    Passed,
+    Failed,
+    Errored,
+    Skipped,
+}
+
+export interface RequestTestResult {
+    name?: string;
+
+    method?: string;
+
+    url?: string;
+
+    /**
+     * Zero-based start and end line numbers of the request in the http file
+     */
+    range: [number, number];
+
+    state: TestState;
+
+    response?: HttpResponse;
+
+    assertionResults: AssertionResult[];
+
+    duration: number;
+
+    message?: string;
+
+    /**
+     * Row of the data file the request is sent with, for the requests with `@data` metadata
+     */
+    dataRow?: DataRow;
+}
+
+export interface HttpTestReport {
+    fileName: string;
+
+    startTime: number;
+
+    duration: number;
+
+    results: RequestTestResult[];
+}
+
+/**
+ * Describes the data row of a result in the `column=value` format
+ */
+export function formatDataRow(dataRow: DataRow): string {
+    return Object.entries(dataRow).map(([column, value]) => `${column}=${value}`).join(', ');
+}
+
+/**
+ * Decides the test state of a received response. The response assertions decide the result if there is any,
+ * otherwise any response whose status code is less than 400 and without failed JSON-RPC calls is regarded as passed.
+ */
+export function getResponseTestState(response: HttpResponse): { state: TestState, message?: string } {
+    const results = response.assertionResults;
+    if (results.length > 0) {
+        const failures = results.filter(r => !r.passed);
+        return failures.length === 0
+            ? { state: TestState.Passed }
+            : { state: TestState.Failed, message: failures.map(f => `${f.assertion.text}: ${f.message}`).join('\n') };
+    }
+
+    if (response.statusCode >= 400) {
+        return { state: TestState.Failed, message: `Unexpected status code ${response.statusCode} ${response.statusMessage}` };
+    }
+
+    const jsonRpcFailures = response.jsonRpcResults.filter(r => r.error || r.missing);
+    return jsonRpcFailures.length === 0
+        ? { state: TestState.Passed }
+        : {
+            state: TestState.Failed,
+            message: jsonRpcFailures.map(({ call, error, missing }) => {
+                const source = call ? `${call.method} (id: ${JSON.stringify(call.id)})` : 'Unknown call';
+                return missing ? `${source}: no response is received` : `${source}: ${error!.code} ${error!.message}`;
+            }).join('\n')
+        };
+}
@@ -35,6 +35,8 @@ export const enum ResolveWarningMessage {
     IncorrectProcessEnvVariableFormat = 'ProcessEnv system variable should follow format "{{$processEnv envVarName}}"',
     IncorrectTimestampVariableFormat = 'Timestamp system variable should follow format "{{$timestamp [integer y|M|w|d|h|m|s|ms]}}"',
     IncorrectDotenvVariableFormat = 'Dotenv variable should follow format "{{$dotenv variableName}}"',
+    IncorrectOAuth2VariableFormat = 'OAuth2 system variable should follow format "{{$oauth2 profileName}}"',
+    OAuth2TokenNotAcquired = 'Failed to acquire the access token of the OAuth 2.0 profile',
     IncorrectXPath = 'No value is resolved for given XPath',
     UnsupportedBodyContentType = 'Only JSON and XML response/request body is supported to query the result',
     InvalidJSONPath = 'Invalid JSONPath query',
@@ -0,0 +1,33 @@
+export interface JsonRpcCall {
+    /**
+     * The id of the call, which is auto-incremented if not specified in the request body
+     */
+    id: number | string | null;
+
+    method: string;
+}
+
+export interface JsonRpcError {
+    code: number;
+
+    message: string;
+
+    data?: unknown;
+}
+
+export interface JsonRpcResult {
+    /**
+     * The call of the result, which is undefined for the errors the server failed to associate with a call,
+     * like parse errors
+     */
+    call?: JsonRpcCall;
+
+    result?: unknown;
+
+    error?: JsonRpcError;
+
+    /**
+     * Represents no response is received for the call
+     */
+    missing?: boolean;
+}
@@ -0,0 +1,11 @@
+export interface PreRequestScript {
+    /**
+     * The JavaScript source of the script block
+     */
+    text: string;
+
+    /**
+     * Values of the variables referenced by `variables.get('<name>')` in the script, resolved when the request is parsed
+     */
+    variables: Map<string, string>;
+}
@@ -0,0 +1,42 @@
+/**
+ * Host specific functionalities used when parsing and sending requests, so that the same
+ * request pipeline can run both in the editor and from the command line
+ */
+export interface RequestHost {
+    /**
+     * Resolves all the variable references in the given text, the given variables like the columns of a data row
+     * take precedence over the others
+     */
+    resolveVariables(text: string, variables?: Map<string, string>): Promise<string>;
+
+    /**
+     * Resolves a file path referenced in the request to an absolute path,
+     * returns undefined if the file doesn't exist
+     */
+    resolveFilePath(refPath: string): Promise<string | undefined>;
+
+    /**
+     * Finds the proto files used to discover the gRPC services
+     */
+    findProtoFiles(): Promise<string[]>;
+
+    /**
+     * Returns the profiles defined in the given object like `$signing` of the current and shared environments,
+     * the ones of the current environment take precedence
+     */
+    getEnvironmentProfiles(name: string): Promise<{ [profileName: string]: any }>;
+
+    /**
+     * Returns the path of the http file the requests belong to, undefined if the file isn't saved
+     */
+    getHttpFilePath(): string | undefined;
+
+    /**
+     * Sets the file variable of the http file, which is set by the pre-request scripts
+     */
+    setFileVariable(name: string, value: string): void;
+
+    showWarning(message: string): void;
+
+    log(message: string): void;
+}
@@ -21,6 +21,31 @@ export enum RequestMetadata {
      * Used to allow user to interactively input variables for this request
      */
     Prompt = 'prompt',
+
+    /**
+     * Represents the CSV or JSON data file, the request is sent once per row with each column as a variable
+     */
+    Data = 'data',
+
+    /**
+     * Represents the response is compared against the snapshot saved by the first run, with optional ignored JSONPaths
+     */
+    Snapshot = 'snapshot',
+
+    /**
+     * Represents the response body is shown as it arrives, which is the default for event stream responses
+     */
+    Stream = 'stream',
+
+    /**
+     * Represents the HTTP version to send the request with, `2` for HTTP/2 and `1.1` for HTTP/1.1
+     */
+    HttpVersion = 'http-version',
+
+    /**
+     * Represents the Unix domain socket or Windows named pipe to send the request through
+     */
+    Socket = 'socket',
 }
 
 export function fromString(value: string): RequestMetadata | undefined {
@@ -1,20 +1,18 @@
 import { CurlRequestParser } from '../utils/curlRequestParser';
 import { HttpRequestParser } from '../utils/httpRequestParser';
-import { IRestClientSettings, SystemSettings } from './configurationSettings';
+import { HttpRequestSettings } from './configurationSettings';
+import { RequestHost } from './requestHost';
 import { RequestParser } from './requestParser';
 
 export class RequestParserFactory {
 
     private static readonly curlRegex: RegExp = /^\s*curl/i;
 
-    public static createRequestParser(rawRequest: string): RequestParser;
-    public static createRequestParser(rawRequest: string, settings: IRestClientSettings): RequestParser;
-    public static createRequestParser(rawHttpRequest: string, settings?: IRestClientSettings): RequestParser {
-        settings = settings || SystemSettings.Instance;
+    public static createRequestParser(rawHttpRequest: string, settings: HttpRequestSettings, host: RequestHost): RequestParser {
         if (RequestParserFactory.curlRegex.test(rawHttpRequest)) {
-            return new CurlRequestParser(rawHttpRequest, settings);
+            return new CurlRequestParser(rawHttpRequest, settings, host);
         } else {
-            return new HttpRequestParser(rawHttpRequest, settings);
+            return new HttpRequestParser(rawHttpRequest, settings, host);
         }
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,45 @@
+export enum AssertionOperator {
+    Equal = '==',
+    NotEqual = '!=',
+    LessThan = '<',
+    LessThanOrEqual = '<=',
+    GreaterThan = '>',
+    GreaterThanOrEqual = '>=',
+    Contains = 'contains',
+    NotContains = '!contains',
+    Matches = 'matches',
+    Exists = 'exists',
+    NotExists = '!exists',
+}
+
+export interface ResponseAssertion {
+    /**
+     * The raw assertion text, e.g., `body.$.id == 1`
+     */
+    text: string;
+
+    /**
+     * The checked part of the response, one of `status`, `duration`, `headers.<name>` or `body[.<JSONPath|XPath>]`
+     */
+    subject: string;
+
+    operator: AssertionOperator;
+
+    expected?: string;
+}
+
+export interface AssertionResult {
+    assertion: ResponseAssertion;
+
+    passed: boolean;
+
+    actual?: string;
+
+    message?: string;
+}
+
+export function fromString(value: string): AssertionOperator | undefined {
+    value = value.toLowerCase();
+    const enumName = (Object.keys(AssertionOperator) as Array<keyof typeof AssertionOperator>).find(k => AssertionOperator[k] === value);
+    return enumName ? AssertionOperator[enumName] : undefined;
+}
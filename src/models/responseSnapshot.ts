@@ -0,0 +1,11 @@
+export interface ResponseSnapshot {
+    /**
+     * Absolute path of the snapshot file
+     */
+    filePath: string;
+
+    /**
+     * JSONPaths of the volatile fields in the JSON body, like timestamps and ids, which are ignored in the comparison
+     */
+    ignoredPaths: string[];
+}
@@ -0,0 +1,46 @@
+import { Event } from 'vscode';
+
+export enum StreamingMessageType {
+    Sent,
+    Received,
+    Info,
+    Error,
+}
+
+export interface StreamingMessage {
+    type: StreamingMessageType;
+
+    data: string;
+
+    /**
+     * Extra information about the message, like the event type and id of a server-sent event
+     */
+    label?: string;
+
+    timestamp: number;
+}
+
+/**
+ * A long-lived connection, like a WebSocket, whose messages are streamed into the view as they arrive
+ */
+export interface StreamingSession {
+    readonly title: string;
+
+    readonly isOpen: boolean;
+
+    /**
+     * All the messages since the session is created
+     */
+    readonly messages: StreamingMessage[];
+
+    readonly onDidAddMessage: Event<StreamingMessage>;
+
+    readonly onDidClose: Event<void>;
+
+    /**
+     * Sends a message to the server, only available for the sessions which accept messages from the client
+     */
+    send?(text: string): Promise<void>;
+
+    close(): void;
+}
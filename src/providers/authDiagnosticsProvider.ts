@@ -0,0 +1,89 @@
+import { Diagnostic, DiagnosticCollection, DiagnosticSeverity, Disposable, languages, Range, TextDocument, workspace } from 'vscode';
+import * as Constants from '../common/constants';
+import { AuthProviderRegistry } from '../utils/auth/authProvider';
+import { disposeAll } from '../utils/dispose';
+import { Selector } from '../utils/selector';
+
+/**
+ * Reports the Authorization headers whose parameters can't be parsed by the provider of the scheme, since they're
+ * sent as is instead of being authenticated
+ */
+export class AuthDiagnosticsProvider {
+    private static readonly authorizationRegex = /^(\s*Authorization\s*:\s*)(\S+)(?:\s+(.*?))?\s*$/i;
+
+    private authDiagnosticCollection: DiagnosticCollection = languages.createDiagnosticCollection();
+
+    private disposables: Disposable[] = [this.authDiagnosticCollection];
+
+    private pendingHttpDocuments = new Set<TextDocument>();
+
+    private timer: NodeJS.Timeout | undefined;
+
+    constructor() {
+        this.disposables.push(
+            workspace.onDidOpenTextDocument(document => this.queue(document)),
+            workspace.onDidChangeTextDocument(event => this.queue(event.document)),
+            workspace.onDidCloseTextDocument(document => this.clear(document))
+        );
+        workspace.textDocuments.forEach(document => this.queue(document));
+    }
+
+    public dispose() {
+        disposeAll(this.disposables);
+        this.disposables = [];
+    }
+
+    private queue(document: TextDocument) {
+        if (document.languageId === 'http') {
+            this.pendingHttpDocuments.add(document);
+            this.startTimer();
+        }
+    }
+
+    private startTimer() {
+        if (this.timer) {
+            clearTimeout(this.timer);
+        }
+        this.timer = setTimeout(() => {
+            this.checkAuthorizations();
+        }, 300);
+    }
+
+    private clear(document: TextDocument) {
+        this.authDiagnosticCollection.delete(document.uri);
+        this.pendingHttpDocuments.delete(document);
+    }
+
+    private checkAuthorizations() {
+        for (const document of this.pendingHttpDocuments) {
+            this.pendingHttpDocuments.delete(document);
+            if (document.isClosed) {
+                continue;
+            }
+
+            const diagnostics: Diagnostic[] = [];
+            const lines = document.getText().split(Constants.LineSplitterRegex);
+            for (const [start, end] of Selector.getRequestRanges(lines)) {
+                // the headers end at the first empty line after the request line
+                for (let line = start + 1; line <= end && !Selector.isEmptyLine(lines[line]); line++) {
+                    const match = AuthDiagnosticsProvider.authorizationRegex.exec(lines[line]);
+                    if (!match) {
+                        continue;
+                    }
+
+                    // the parameters referencing variables are only known after resolved
+                    const [, prefix, scheme, parameters = ''] = match;
+                    const problem = parameters.includes('{{') ? undefined : AuthProviderRegistry.get(scheme)?.validate?.(parameters);
+                    if (problem) {
+                        const range = new Range(line, prefix.length, line, lines[line].trimRight().length);
+                        const diagnostic = new Diagnostic(range, problem, DiagnosticSeverity.Warning);
+                        diagnostic.source = 'REST Client';
+                        diagnostics.push(diagnostic);
+                    }
+                }
+            }
+
+            this.authDiagnosticCollection.set(document.uri, diagnostics);
+        }
+    }
+}
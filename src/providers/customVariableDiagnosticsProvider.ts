@@ -3,6 +3,7 @@ import * as Constants from '../common/constants';
 import { EnvironmentController } from '../controllers/environmentController';
 import { DocumentCache } from '../models/documentCache';
 import { ResolveState } from '../models/httpVariableResolveResult';
+import { RequestMetadata } from '../models/requestMetadata';
 import { VariableType } from '../models/variableType';
 import { disposeAll } from '../utils/dispose';
 import { RequestVariableCache } from "../utils/requestVariableCache";
@@ -89,6 +90,7 @@ export class CustomVariableDiagnosticsProvider {
 
             const allAvailableVariables = await VariableProcessor.getAllVariablesDefinitions(document);
             const promptVariableDefinitions = this.findPromptVariableDefinitions(document);
+            const dataRequestRanges = this.findDataRequestRanges(document);
             const variableReferences = this.findVariableReferences(document);
 
             // Variable not found
@@ -97,6 +99,8 @@ export class CustomVariableDiagnosticsProvider {
                 .forEach(([, variables]) => {
                     variables
                         .filter(variable => !this.hasPromptVariableDefintion(promptVariableDefinitions, variable))
+                        // variables of data-driven requests may be provided by the columns of the data file
+                        .filter(({ begin }) => !dataRequestRanges.some(([start, end]) => start <= begin.line && begin.line <= end))
                         .forEach(({ name, begin, end }) => {
                             diagnostics.push(
                                 new Diagnostic(new Range(begin, end), `${name} is not found`, DiagnosticSeverity.Error));
@@ -207,6 +211,12 @@ export class CustomVariableDiagnosticsProvider {
         }
         return defs;
     }
+    private findDataRequestRanges(document: TextDocument): [number, number][] {
+        const rawLines = document.getText().split(Constants.LineSplitterRegex);
+        return Selector.getRequestRanges(rawLines, { ignoreCommentLine: false })
+            .filter(([start, end]) => Selector.parseReqMetadatas(rawLines.slice(start, end + 1)).has(RequestMetadata.Data));
+    }
+
     private hasPromptVariableDefintion(defs: Map<string, PromptVariableDefinitionWithRange[]>, variable: VariableWithPosition): boolean {
         const { name, begin, end } = variable;
         return defs.get(name)?.some(({ name, range: [rangeStart, rangeEnd] }) => {
@@ -0,0 +1,39 @@
+import { getAutocompleteSuggestions, Position as GraphQlPosition } from 'graphql-language-service';
+import { CancellationToken, CompletionItem, CompletionItemKind, CompletionItemProvider, CompletionItemTag, MarkdownString, Position, SnippetString, TextDocument } from 'vscode';
+import * as Constants from '../common/constants';
+import { GraphQlRequestLocator } from '../utils/graphql/graphQlRequestLocator';
+import { GraphQlSchemaProvider } from '../utils/graphql/graphQlSchemaProvider';
+
+export class GraphQlCompletionItemProvider implements CompletionItemProvider {
+    public async provideCompletionItems(document: TextDocument, position: Position, token: CancellationToken): Promise<CompletionItem[] | undefined> {
+        const block = GraphQlRequestLocator.findAt(document.getText().split(Constants.LineSplitterRegex), position.line);
+        if (!block) {
+            return undefined;
+        }
+
+        // only the schemas which have been fetched are used, since fetching the schema resolves the headers of the request,
+        // which may require signing in
+        const schema = await GraphQlSchemaProvider.getCachedSchema(block, document);
+        if (!schema) {
+            return undefined;
+        }
+
+        const cursor = new GraphQlPosition(position.line - block.queryStartLine, position.character);
+        return getAutocompleteSuggestions(schema, block.query, cursor).map(suggestion => {
+            // the kinds of language server protocol start from 1
+            const item = new CompletionItem(suggestion.label, suggestion.kind ? suggestion.kind - 1 : CompletionItemKind.Field);
+            item.detail = suggestion.detail;
+            if (suggestion.documentation) {
+                item.documentation = new MarkdownString(suggestion.documentation);
+            }
+            if (suggestion.insertText) {
+                // insert text format 2 is snippet
+                item.insertText = suggestion.insertTextFormat === 2 ? new SnippetString(suggestion.insertText) : suggestion.insertText;
+            }
+            if (suggestion.isDeprecated) {
+                item.tags = [CompletionItemTag.Deprecated];
+            }
+            return item;
+        });
+    }
+}
@@ -0,0 +1,95 @@
+import { getDiagnostics } from 'graphql-language-service';
+import { Diagnostic, DiagnosticCollection, Disposable, languages, Range, TextDocument, workspace } from 'vscode';
+import * as Constants from '../common/constants';
+import { EnvironmentController } from '../controllers/environmentController';
+import { disposeAll } from '../utils/dispose';
+import { GraphQlRequestLocator } from '../utils/graphql/graphQlRequestLocator';
+import { GraphQlSchemaProvider } from '../utils/graphql/graphQlSchemaProvider';
+
+/**
+ * Reports the syntax errors in the queries of GraphQL requests, and the invalid selections against the schema of the endpoint
+ * once it's fetched
+ */
+export class GraphQlDiagnosticsProvider {
+    private graphQlDiagnosticCollection: DiagnosticCollection = languages.createDiagnosticCollection();
+
+    private disposables: Disposable[] = [this.graphQlDiagnosticCollection];
+
+    private pendingHttpDocuments = new Set<TextDocument>();
+
+    private timer: NodeJS.Timeout | undefined;
+
+    constructor() {
+        this.disposables.push(
+            workspace.onDidOpenTextDocument(document => this.queue(document)),
+            workspace.onDidChangeTextDocument(event => this.queue(event.document)),
+            workspace.onDidCloseTextDocument(document => this.clear(document)),
+            EnvironmentController.onDidChangeEnvironment(_ => this.queueAll()),
+            GraphQlSchemaProvider.onDidChangeSchema(_ => this.queueAll())
+        );
+        this.queueAll();
+    }
+
+    public dispose() {
+        disposeAll(this.disposables);
+        this.disposables = [];
+    }
+
+    private queue(document: TextDocument) {
+        if (document.languageId === 'http') {
+            this.pendingHttpDocuments.add(document);
+            this.startTimer();
+        }
+    }
+
+    private queueAll() {
+        workspace.textDocuments.forEach(document => this.queue(document));
+    }
+
+    private startTimer() {
+        if (this.timer) {
+            clearTimeout(this.timer);
+        }
+        this.timer = setTimeout(() => {
+            this.checkQueries();
+        }, 300);
+    }
+
+    private clear(document: TextDocument) {
+        this.graphQlDiagnosticCollection.delete(document.uri);
+        this.pendingHttpDocuments.delete(document);
+    }
+
+    private async checkQueries() {
+        for (const document of this.pendingHttpDocuments) {
+            this.pendingHttpDocuments.delete(document);
+            if (document.isClosed) {
+                continue;
+            }
+
+            const diagnostics: Diagnostic[] = [];
+            for (const block of GraphQlRequestLocator.find(document.getText().split(Constants.LineSplitterRegex))) {
+                // without the schema, only the syntax errors are reported
+                const schema = await GraphQlSchemaProvider.getCachedSchema(block, document);
+                for (const { range: { start, end }, message, severity } of getDiagnostics(block.query, schema)) {
+                    // the variable references are replaced with null values, whose errors may not exist after resolved
+                    const overlapsVariable = block.variableReferences.some(([line, begin, finish]) =>
+                        start.line <= line && line <= end.line
+                        && (start.line < line || start.character < finish)
+                        && (line < end.line || begin < end.character));
+                    if (overlapsVariable) {
+                        continue;
+                    }
+
+                    // the severities of language server protocol start from 1
+                    const range = new Range(start.line + block.queryStartLine, start.character, end.line + block.queryStartLine, end.character);
+                    const diagnostic = new Diagnostic(range, typeof message === 'string' ? message : message.value, (severity ?? 1) - 1);
+                    diagnostic.source = 'GraphQL';
+                    diagnostics.push(diagnostic);
+                }
+            }
+
+            this.graphQlDiagnosticCollection.set(document.uri, diagnostics);
+        }
+    }
+}
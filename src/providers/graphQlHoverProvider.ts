@@ -0,0 +1,25 @@
+import { getHoverInformation, Position as GraphQlPosition } from 'graphql-language-service';
+import { CancellationToken, Hover, HoverProvider, MarkdownString, Position, TextDocument } from 'vscode';
+import * as Constants from '../common/constants';
+import { GraphQlRequestLocator } from '../utils/graphql/graphQlRequestLocator';
+import { GraphQlSchemaProvider } from '../utils/graphql/graphQlSchemaProvider';
+
+export class GraphQlHoverProvider implements HoverProvider {
+    public async provideHover(document: TextDocument, position: Position, token: CancellationToken): Promise<Hover | undefined> {
+        const block = GraphQlRequestLocator.findAt(document.getText().split(Constants.LineSplitterRegex), position.line);
+        if (!block) {
+            return undefined;
+        }
+
+        // only the schemas which have been fetched are used, since hovering shouldn't send requests
+        const schema = await GraphQlSchemaProvider.getCachedSchema(block, document);
+        if (!schema) {
+            return undefined;
+        }
+
+        const cursor = new GraphQlPosition(position.line - block.queryStartLine, position.character);
+        const contents = getHoverInformation(schema, block.query, cursor);
+        const text = Array.isArray(contents) ? contents.map(c => typeof c === 'string' ? c : c.value).join('\n\n') : typeof contents === 'string' ? contents : contents.value;
+        return text ? new Hover(new MarkdownString(text), document.getWordRangeAtPosition(position, /[_A-Za-z][_0-9A-Za-z]*/)) : undefined;
+    }
+}
@@ -1,14 +1,30 @@
-import { CancellationToken, CompletionItem, CompletionItemKind, CompletionItemProvider, Position, TextDocument } from 'vscode';
+import { CancellationToken, CompletionItem, CompletionItemKind, CompletionItemProvider, Position, Range, TextDocument } from 'vscode';
+import * as Constants from '../common/constants';
 import { ElementType } from '../models/httpElement';
+import { GraphQlRequestLocator } from '../utils/graphql/graphQlRequestLocator';
+import { GrpcServiceRegistry } from '../utils/grpc/grpcServiceRegistry';
 import { HttpElementFactory } from '../utils/httpElementFactory';
 import { VariableUtility } from "../utils/variableUtility";
+import { WorkspaceRequestHost } from '../utils/workspaceRequestHost';
 
 export class HttpCompletionItemProvider implements CompletionItemProvider {
+    private static readonly grpcTargetRegex = /^\s*GRPC\s+(?:grpcs?:\/\/)?[^/\s]+\/([\w.]*)(?:\/(\w*))?$/i;
+
     public async provideCompletionItems(document: TextDocument, position: Position, token: CancellationToken): Promise<CompletionItem[] | undefined> {
         if (!!VariableUtility.getPartialRequestVariableReferencePathRange(document, position)) {
             return undefined;
         }
 
+        const grpcTarget = document.lineAt(position).text.substr(0, position.character).match(HttpCompletionItemProvider.grpcTargetRegex);
+        if (grpcTarget) {
+            return this.getGrpcCompletionItems(position, grpcTarget[1], grpcTarget[2]);
+        }
+
+        // the queries of GraphQL requests are completed from the schema instead
+        if (GraphQlRequestLocator.findAt(document.getText().split(Constants.LineSplitterRegex), position.line)) {
+            return undefined;
+        }
+
         const elements = await HttpElementFactory.getHttpElements(document, document.lineAt(position).text);
         return elements.map(e => {
             const item = new CompletionItem(e.name);
@@ -25,4 +41,41 @@ export class HttpCompletionItemProvider implements CompletionItemProvider {
             return item;
         });
     }
-}
\ No newline at end of file
+
+    /**
+     * Completes the service names after the address of a gRPC request, and the method names after the service name,
+     * the services are discovered from the workspace proto files and the server reflection of the previous requests
+     */
+    private async getGrpcCompletionItems(position: Position, serviceName: string, methodName: string | undefined): Promise<CompletionItem[]> {
+        const services = await GrpcServiceRegistry.loadProtoFiles(await WorkspaceRequestHost.Instance.findProtoFiles());
+        GrpcServiceRegistry.getReflectedServices().forEach((service, name) => services.set(name, service));
+
+        if (methodName === undefined) {
+            const range = new Range(position.translate(0, -serviceName.length), position);
+            return [...services.keys()].map(name => {
+                const item = new CompletionItem(name, CompletionItemKind.Module);
+                item.detail = 'gRPC Service';
+                item.insertText = `${name}/`;
+                item.range = range;
+                return item;
+            });
+        }
+
+        const service = services.get(serviceName);
+        if (!service) {
+            return [];
+        }
+
+        const range = new Range(position.translate(0, -methodName.length), position);
+        return Object.entries(service).map(([name, { requestStream, responseStream, requestType, responseType }]) => {
+            const item = new CompletionItem(name, CompletionItemKind.Method);
+            const streaming = requestStream ? 'client streaming' : responseStream ? 'server streaming' : 'unary';
+            item.detail = `gRPC Method (${streaming})`;
+            // the message types are described by the DescriptorProto objects
+            const [request, response] = [requestType, responseType].map(t => (t.type as { name?: string }).name);
+            item.documentation = `${request} => ${response}`;
+            item.range = range;
+            return item;
+        });
+    }
+}
@@ -1,9 +1,10 @@
 import * as url from 'url';
 import { CancellationToken, DocumentSymbolProvider, Location, Range, SymbolInformation, SymbolKind, TextDocument } from 'vscode';
 import * as Constants from '../common/constants';
+import { SystemSettings } from '../models/configurationSettings';
 import { RequestParserFactory } from '../models/requestParserFactory';
 import { Selector } from '../utils/selector';
-import { VariableProcessor } from '../utils/variableProcessor';
+import { WorkspaceRequestHost } from '../utils/workspaceRequestHost';
 import { getCurrentHttpFileName } from '../utils/workspaceUtility';
 
 export class HttpDocumentSymbolProvider implements DocumentSymbolProvider {
@@ -72,8 +73,8 @@ export class HttpDocumentSymbolProvider implements DocumentSymbolProvider {
             return [name, getCurrentHttpFileName()!];
         }
 
-        const text = await VariableProcessor.processRawRequest(rawText);
-        const parser = RequestParserFactory.createRequestParser(text);
+        const text = await WorkspaceRequestHost.Instance.resolveVariables(rawText);
+        const parser = RequestParserFactory.createRequestParser(text, SystemSettings.Instance, WorkspaceRequestHost.Instance);
         const request = await parser.parseHttpRequest();
         const parsedUrl = url.parse(request.url);
         return [`${request.method} ${parsedUrl.path}`, parsedUrl.host || ''];
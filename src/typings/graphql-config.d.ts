@@ -0,0 +1,7 @@
+// the typings of graphql-language-service import the config types of graphql-config, which are only used by
+// its language server, so they are declared here instead of installing the whole config loader
+declare module 'graphql-config' {
+    export type GraphQLConfig = any;
+    export type GraphQLProjectConfig = any;
+    export type GraphQLExtensionDeclaration = any;
+}
@@ -1,8 +1,10 @@
 import { Clipboard, commands, env, Uri, window } from 'vscode';
 import * as Constants from '../common/constants';
+import { SystemSettings } from '../models/configurationSettings';
 import { HttpRequest } from '../models/httpRequest';
 import { HttpClient } from './httpClient';
 import { EnvironmentVariableProvider } from './httpVariableProviders/environmentVariableProvider';
+import { WorkspaceRequestHost } from './workspaceRequestHost';
 
 /*
  AppId provisioned to allow users to explicitly consent to permissions that this app can call
@@ -52,7 +54,7 @@ export class AadV2TokenProvider {
 
     private async getDeviceCodeResponse(authParams: AuthParameters): Promise<IDeviceCodeResponse> {
         const request = this.createUserCodeRequest(authParams.clientId, authParams.tenantId, authParams.scopes, authParams.cloud);
-        const response = await this._httpClient.send(request);
+        const response = await this._httpClient.send(request, SystemSettings.Instance, WorkspaceRequestHost.Instance);
 
         const bodyObject = JSON.parse(response.body);
 
@@ -71,7 +73,7 @@ export class AadV2TokenProvider {
 
     private async getToken(deviceCodeResponse: IDeviceCodeResponse, authParams: AuthParameters): Promise<string> {
         const request = this.createAcquireTokenRequest(authParams.clientId, authParams.tenantId, deviceCodeResponse.device_code, authParams.cloud);
-        const response = await this._httpClient.send(request);
+        const response = await this._httpClient.send(request, SystemSettings.Instance, WorkspaceRequestHost.Instance);
 
         const bodyObject = JSON.parse(response.body);
 
@@ -92,7 +94,7 @@ export class AadV2TokenProvider {
 
     private async getConfidentialClientToken(authParams: AuthParameters): Promise<string> {
         const request = this.createAcquireConfidentialClientTokenRequest(authParams.clientId, authParams.tenantId, authParams.clientSecret!, authParams.appUri!, authParams.cloud!);
-        const response = await this._httpClient.send(request);
+        const response = await this._httpClient.send(request, SystemSettings.Instance, WorkspaceRequestHost.Instance);
 
         const bodyObject = JSON.parse(response.body);
 
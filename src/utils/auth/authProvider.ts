@@ -0,0 +1,101 @@
+import { AfterResponseHook, BeforeRequestHook, OptionsOfBufferResponseBody } from 'got';
+import { RequestHost } from '../../models/requestHost';
+import { awsCognitoAuthProvider } from './awsCognito';
+import { awsSignatureAuthProvider } from './awsSignature';
+import { basicAuthProvider } from './basic';
+import { digestAuthProvider } from './digest';
+import { hawkAuthProvider } from './hawk';
+import { hmacAuthProvider } from './hmac';
+import { httpMessageSignatureAuthProvider } from './httpMessageSignature';
+import { negotiateAuthProvider, ntlmAuthProvider } from './ntlm';
+
+/**
+ * Snippet offered after `Authorization:`, the snippet includes the scheme name
+ */
+export interface AuthCompletion {
+    label: string;
+    description: string;
+    snippet: string;
+}
+
+/**
+ * Describes how the request is authenticated, the Authorization header written in the request is always removed
+ */
+export interface AuthHooks {
+    /**
+     * Options merged into the request options, for the schemes handled by got itself
+     */
+    options?: Partial<OptionsOfBufferResponseBody>;
+    beforeRequest?: BeforeRequestHook[];
+    afterResponse?: AfterResponseHook[];
+}
+
+/**
+ * Authentication scheme written as `Authorization: <scheme> <parameters>` in the request, whose parameters are
+ * turned into the hooks that authenticate the request when it's sent
+ */
+export interface AuthProvider<TCredentials = any> {
+    /**
+     * Name of the scheme, matched case-insensitively
+     */
+    readonly scheme: string;
+
+    readonly completions: AuthCompletion[];
+
+    /**
+     * Parses the parameters after the scheme, returns undefined if the header isn't handled and should be sent as is
+     */
+    parse(parameters: string): TCredentials | undefined;
+
+    /**
+     * Returns the problem of the parameters reported as diagnostic, the parameters referencing variables aren't validated
+     */
+    validate?(parameters: string): string | undefined;
+
+    /**
+     * Creates the hooks of the parsed credentials, the host gives access to the settings of the current environment
+     */
+    createHooks(credentials: TCredentials, host: RequestHost): AuthHooks | Promise<AuthHooks>;
+}
+
+export class AuthProviderRegistry {
+    private static readonly providers = new Map<string, AuthProvider>();
+
+    public static get all(): AuthProvider[] {
+        return [...this.providers.values()];
+    }
+
+    /**
+     * Registers the provider of a new scheme, or replaces the one with the same scheme name
+     */
+    public static register(provider: AuthProvider) {
+        this.providers.set(provider.scheme.toLowerCase(), provider);
+    }
+
+    public static get(scheme: string): AuthProvider | undefined {
+        return this.providers.get(scheme.toLowerCase());
+    }
+
+    /**
+     * Splits the Authorization header value into the scheme and its parameters, the whitespaces inside the
+     * parameters are preserved
+     */
+    public static split(authorization: string): { scheme: string, parameters: string } {
+        const [, scheme, parameters = ''] = /^\s*(\S*)\s*(.*?)\s*$/s.exec(authorization)!;
+        return { scheme, parameters };
+    }
+
+    /**
+     * Finds the provider of the Authorization header value and parses its parameters, returns undefined if the
+     * header should be sent as is
+     */
+    public static resolve(authorization: string): { provider: AuthProvider, credentials: unknown } | undefined {
+        const { scheme, parameters } = this.split(authorization);
+        const provider = this.get(scheme);
+        const credentials = provider?.parse(parameters);
+        return provider && credentials !== undefined ? { provider, credentials } : undefined;
+    }
+}
+
+[basicAuthProvider, digestAuthProvider, ntlmAuthProvider, negotiateAuthProvider, awsSignatureAuthProvider, awsCognitoAuthProvider,
+    httpMessageSignatureAuthProvider, hawkAuthProvider, hmacAuthProvider].forEach(p => AuthProviderRegistry.register(p));
@@ -1,5 +1,6 @@
 import { Amplify, Auth } from "aws-amplify";
 import type { BeforeRequestHook } from "got";
+import type { AuthProvider } from "./authProvider";
 
 async function login(
   username: string,
@@ -36,11 +37,21 @@ async function login(
   };
 }
 
-export async function awsCognito(
-  authorization: string
-): Promise<BeforeRequestHook> {
-  const [, username, password, region, userPoolId, clientId] = authorization.split(/\s+/);
+export interface AwsCognitoCredentials {
+  username: string;
+  password: string;
+  region: string;
+  userPoolId: string;
+  clientId: string;
+}
 
+export async function awsCognito({
+  username,
+  password,
+  region,
+  userPoolId,
+  clientId,
+}: AwsCognitoCredentials): Promise<BeforeRequestHook> {
   const { accessToken } = await login(
     username,
     password,
@@ -56,3 +67,28 @@ export async function awsCognito(
     };
   };
 }
+
+export const awsCognitoAuthProvider: AuthProvider<AwsCognitoCredentials> = {
+  scheme: "COGNITO",
+  completions: [
+    {
+      label: "AWS Cognito",
+      description: "Sign in to the Cognito user pool and send the access token",
+      snippet: "COGNITO ${1:username} ${2:password} ${3:region} ${4:userPoolId} ${5:clientId}",
+    },
+  ],
+  parse(parameters) {
+    // the password is matched between the username and the trailing pool settings, so it may contain spaces
+    const [, username, password, region, userPoolId, clientId] =
+      /^(\S+)\s+(.+)\s+(\S+)\s+(\S+)\s+(\S+)$/s.exec(parameters) ?? [];
+    return username ? { username, password, region, userPoolId, clientId } : undefined;
+  },
+  validate(parameters) {
+    return this.parse(parameters)
+      ? undefined
+      : "AWS Cognito requires the username, password, region, user pool id and client id separated by space";
+  },
+  async createHooks(credentials) {
+    return { beforeRequest: [await awsCognito(credentials)] };
+  },
+};
@@ -0,0 +1,182 @@
+import { exec } from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import fetch from 'node-fetch';
+import * as os from 'os';
+import * as path from 'path';
+
+export interface AwsCredentials {
+    accessKeyId: string;
+    secretAccessKey: string;
+    sessionToken?: string;
+
+    /**
+     * Epoch time in milliseconds when the temporary credentials expire
+     */
+    expiration?: number;
+}
+
+type IniSections = { [name: string]: { [key: string]: string } };
+
+/**
+ * Resolves the AWS credentials the same way as the AWS CLI, from the standard environment variables or the profiles
+ * in the shared credentials and config files, including the `credential_process` and the cached SSO tokens
+ */
+export class AwsCredentialProvider {
+    private static readonly expirySkewInMilliseconds = 5 * 60 * 1000;
+
+    private static readonly credentialProcessTimeoutInMilliseconds = 60 * 1000;
+
+    private static readonly temporaryCredentials = new Map<string, AwsCredentials>();
+
+    /**
+     * Returns the credentials of the named profile, or the ones from the environment variables and then the profile of
+     * `AWS_PROFILE` or `default` if not named, along with the region configured for them
+     */
+    public static async resolve(profileName?: string): Promise<{ credentials: AwsCredentials, region?: string }> {
+        const { AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY, AWS_SESSION_TOKEN, AWS_PROFILE } = process.env;
+        const environmentRegion = process.env.AWS_REGION || process.env.AWS_DEFAULT_REGION;
+        if (!profileName && AWS_ACCESS_KEY_ID && AWS_SECRET_ACCESS_KEY) {
+            return {
+                credentials: { accessKeyId: AWS_ACCESS_KEY_ID, secretAccessKey: AWS_SECRET_ACCESS_KEY, sessionToken: AWS_SESSION_TOKEN },
+                region: environmentRegion
+            };
+        }
+
+        const name = profileName || AWS_PROFILE || 'default';
+        const config = await this.readIniFile(process.env.AWS_CONFIG_FILE || path.join(os.homedir(), '.aws', 'config'));
+        const credentialsFile = await this.readIniFile(process.env.AWS_SHARED_CREDENTIALS_FILE || path.join(os.homedir(), '.aws', 'credentials'));
+
+        // the profiles other than default are prefixed in the config file, and the credentials file takes precedence
+        const configProfile = config[name === 'default' ? name : `profile ${name}`] ?? config[name];
+        if (!configProfile && !credentialsFile[name]) {
+            throw new Error(`AWS profile "${name}" is not found in the shared credentials or config file.`);
+        }
+
+        const profile = { ...configProfile, ...credentialsFile[name] };
+        return {
+            credentials: await this.getProfileCredentials(name, profile, config),
+            region: profile.region || environmentRegion
+        };
+    }
+
+    private static async getProfileCredentials(name: string, profile: { [key: string]: string }, config: IniSections): Promise<AwsCredentials> {
+        if (profile.aws_access_key_id && profile.aws_secret_access_key) {
+            return {
+                accessKeyId: profile.aws_access_key_id,
+                secretAccessKey: profile.aws_secret_access_key,
+                sessionToken: profile.aws_session_token
+            };
+        }
+
+        const cached = this.temporaryCredentials.get(name);
+        if (cached && (!cached.expiration || cached.expiration - this.expirySkewInMilliseconds > Date.now())) {
+            return cached;
+        }
+
+        let credentials: AwsCredentials;
+        if (profile.credential_process) {
+            credentials = await this.runCredentialProcess(name, profile.credential_process);
+        } else if (profile.sso_session || profile.sso_start_url) {
+            credentials = await this.getSsoCredentials(name, profile, config);
+        } else if (profile.role_arn) {
+            throw new Error(`Assuming role of AWS profile "${name}" is not supported, please use credential_process instead.`);
+        } else {
+            throw new Error(`AWS profile "${name}" doesn't have access keys, credential_process or SSO configured.`);
+        }
+
+        this.temporaryCredentials.set(name, credentials);
+        return credentials;
+    }
+
+    private static runCredentialProcess(name: string, command: string): Promise<AwsCredentials> {
+        return new Promise((resolve, reject) => {
+            exec(command, { timeout: this.credentialProcessTimeoutInMilliseconds }, (error, stdout, stderr) => {
+                if (error) {
+                    reject(new Error(`credential_process of AWS profile "${name}" failed: ${stderr.trim() || error.message}`));
+                    return;
+                }
+
+                try {
+                    const { Version, AccessKeyId, SecretAccessKey, SessionToken, Expiration } = JSON.parse(stdout);
+                    if (Version !== 1 || !AccessKeyId || !SecretAccessKey) {
+                        throw new Error();
+                    }
+
+                    resolve({
+                        accessKeyId: AccessKeyId,
+                        secretAccessKey: SecretAccessKey,
+                        sessionToken: SessionToken,
+                        expiration: Expiration ? Date.parse(Expiration) : undefined
+                    });
+                } catch {
+                    reject(new Error(`credential_process of AWS profile "${name}" didn't output the credentials in the expected JSON format of version 1.`));
+                }
+            });
+        });
+    }
+
+    private static async getSsoCredentials(name: string, profile: { [key: string]: string }, config: IniSections): Promise<AwsCredentials> {
+        // the token of a sso-session is cached by the session name, while the legacy configuration by the start url
+        let { sso_region: region, sso_start_url: cacheKey } = profile;
+        if (profile.sso_session) {
+            const session = config[`sso-session ${profile.sso_session}`];
+            if (!session) {
+                throw new Error(`sso-session "${profile.sso_session}" of AWS profile "${name}" is not found in the config file.`);
+            }
+
+            region = session.sso_region;
+            cacheKey = profile.sso_session;
+        }
+
+        const cacheFile = path.join(os.homedir(), '.aws', 'sso', 'cache', `${crypto.createHash('sha1').update(cacheKey).digest('hex')}.json`);
+        let token: { accessToken?: string, expiresAt?: string } = {};
+        if (await fs.pathExists(cacheFile)) {
+            token = await fs.readJson(cacheFile).catch(() => ({}));
+        }
+
+        if (!token.accessToken || !token.expiresAt || Date.parse(token.expiresAt) <= Date.now()) {
+            throw new Error(`The SSO session of AWS profile "${name}" has expired or not signed in, please sign in with "aws sso login --profile ${name}".`);
+        }
+
+        const url = new URL(`https://portal.sso.${region}.amazonaws.com/federation/credentials`);
+        url.searchParams.set('account_id', profile.sso_account_id);
+        url.searchParams.set('role_name', profile.sso_role_name);
+        const response = await fetch(url.toString(), { headers: { 'x-amz-sso_bearer_token': token.accessToken } });
+        if (!response.ok) {
+            throw new Error(`Failed to get the role credentials of AWS profile "${name}" from SSO, the server responded with ${response.status} ${response.statusText}.`);
+        }
+
+        const { roleCredentials } = await response.json();
+        return {
+            accessKeyId: roleCredentials.accessKeyId,
+            secretAccessKey: roleCredentials.secretAccessKey,
+            sessionToken: roleCredentials.sessionToken,
+            expiration: roleCredentials.expiration
+        };
+    }
+
+    private static async readIniFile(filePath: string): Promise<IniSections> {
+        const sections: IniSections = {};
+        if (!await fs.pathExists(filePath)) {
+            return sections;
+        }
+
+        let current: { [key: string]: string } | undefined;
+        for (const line of (await fs.readFile(filePath, 'utf8')).split(/\r?\n/)) {
+            const section = /^\s*\[([^\]]+)\]/.exec(line);
+            if (section) {
+                current = sections[section[1].trim().replace(/\s+/g, ' ')] = {};
+                continue;
+            }
+
+            // the nested settings are indented, which aren't used for credentials
+            const property = /^([^\s#;=][^=]*?)\s*=\s*(.*?)\s*$/.exec(line);
+            if (current && property) {
+                current[property[1].trim()] = property[2];
+            }
+        }
+
+        return sections;
+    }
+}
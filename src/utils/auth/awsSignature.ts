@@ -1,20 +1,115 @@
 import aws4 = require('aws4');
 import got = require('got');
+import { AuthProvider } from './authProvider';
+import { AwsCredentialProvider, AwsCredentials } from './awsCredentials';
 
-export function awsSignature(authorization: string): got.BeforeRequestHook {
-    const [ , accessKeyId, secretAccessKey ] = authorization.split(/\s+/);
-    const credentials = {
-        accessKeyId,
-        secretAccessKey,
-        sessionToken: /token:(\S*)/.exec(authorization)?.[1]
-    };
-    const awsScope = {
-        region: /region:(\S*)/.exec(authorization)?.[1],
-        service: /service:(\S*)/.exec(authorization)?.[1]
-    };
+export interface AwsSignatureCredentials {
+    accessKeyId?: string;
+    secretAccessKey?: string;
+    sessionToken?: string;
+
+    /**
+     * Profile to resolve the credentials from when the access keys aren't given
+     */
+    profile?: string;
+    region?: string;
+    service?: string;
+}
+
+type AwsScope = { region?: string, service?: string };
+
+const regionRegex = /^[a-z]{2}(?:-gov|-iso[a-z]?)?-[a-z]+-\d+$/;
+
+/**
+ * Infers the signing scope from the endpoint host, like `dynamodb.us-east-1.amazonaws.com`,
+ * `bucket.s3.eu-west-1.amazonaws.com`, `search-domain.us-east-1.es.amazonaws.com` and the Lambda function URLs
+ */
+export function inferAwsScope(hostname: string): AwsScope {
+    const lambdaUrl = /\.lambda-url\.([a-z0-9-]+)\.on\.aws$/i.exec(hostname);
+    if (lambdaUrl) {
+        return { service: 'lambda', region: lambdaUrl[1] };
+    }
+
+    const match = /^(.*?)\.?amazonaws\.com(?:\.cn)?$/i.exec(hostname.toLowerCase());
+    if (!match) {
+        return {};
+    }
 
-    return async options => {
-        const result = aws4.sign({...options as any, ...awsScope}, credentials);
-        return result as any as got.Response;
+    const labels = match[1].split('.').filter(Boolean);
+    const s3 = labels.find(l => l === 's3' || l.startsWith('s3-'));
+    const regionIndex = labels.map(l => l.replace(/^s3-/, '')).findIndex(l => regionRegex.test(l));
+
+    // the global endpoints like iam and s3.amazonaws.com are signed for us-east-1
+    const region = regionIndex >= 0 ? labels[regionIndex].replace(/^s3-/, '') : 'us-east-1';
+    if (s3) {
+        return { service: 's3', region };
+    }
+
+    // the OpenSearch domains put the service after the region
+    const next = labels[regionIndex + 1];
+    const service = regionIndex < 0
+        ? labels[labels.length - 1]
+        : next === 'es' || next === 'aoss' ? next : labels[regionIndex - 1];
+    return { service, region };
+}
+
+export function awsSignature(credentials: AwsCredentials, { region, service }: AwsScope, defaultRegion?: string): got.BeforeRequestHook {
+    return options => {
+        const { host, hostname, pathname, search } = options.url;
+        const inferred = inferAwsScope(hostname);
+
+        // the headers of the options are signed in place
+        aws4.sign({
+            host,
+            path: `${pathname}${search}`,
+            method: options.method,
+            headers: options.headers as any,
+            body: options.body as any,
+            region: region ?? inferred.region ?? defaultRegion,
+            service: service ?? inferred.service
+        }, credentials);
     };
-}
\ No newline at end of file
+}
+
+export const awsSignatureAuthProvider: AuthProvider<AwsSignatureCredentials> = {
+    scheme: 'AWS',
+    completions: [
+        {
+            label: 'AWS Signature v4',
+            description: 'Sign the request with AWS access key, the session token, region and service are optional',
+            snippet: 'AWS ${1:accessId} ${2:accessKey} token:${3:sessionToken} region:${4:regionName} service:${5:serviceName}'
+        },
+        {
+            label: 'AWS Signature v4 (Profile)',
+            description: 'Sign the request with the credentials of AWS profile, the region and service are inferred from the host if omitted',
+            snippet: 'AWS profile:${1:default}'
+        }
+    ],
+    parse(parameters) {
+        const option = (name: string) => new RegExp(`(?:^|\\s)${name}:(\\S*)`).exec(parameters)?.[1];
+        const [accessKeyId, secretAccessKey] = parameters.split(/\s+/).filter(p => p && !/^(token|region|service|profile):/.test(p));
+
+        // without the access keys, the credentials are resolved from the profile or the environment
+        if (accessKeyId && !secretAccessKey) {
+            return undefined;
+        }
+
+        return {
+            accessKeyId,
+            secretAccessKey,
+            sessionToken: option('token'),
+            profile: option('profile'),
+            region: option('region'),
+            service: option('service')
+        };
+    },
+    validate(parameters) {
+        return this.parse(parameters) ? undefined : 'AWS Signature v4 requires the access key id and secret access key separated by space, or profile:<name>';
+    },
+    async createHooks({ accessKeyId, secretAccessKey, sessionToken, profile, region, service }) {
+        const { credentials, region: defaultRegion } = accessKeyId && secretAccessKey
+            ? { credentials: { accessKeyId, secretAccessKey, sessionToken }, region: process.env.AWS_REGION || process.env.AWS_DEFAULT_REGION }
+            : await AwsCredentialProvider.resolve(profile);
+        return { beforeRequest: [awsSignature(credentials, { region, service }, defaultRegion)] };
+    }
+};
@@ -0,0 +1,31 @@
+import { base64 } from '../misc';
+import { AuthProvider } from './authProvider';
+
+export interface BasicCredentials {
+    username: string;
+    password: string;
+}
+
+/**
+ * Encodes the raw username and password written as `user:password` or `user password`, since user-ids can't contain
+ * colons the password may contain both colons and spaces. A single token without colon is taken as already encoded
+ */
+export const basicAuthProvider: AuthProvider<BasicCredentials> = {
+    scheme: 'Basic',
+    completions: [
+        { label: 'Basic Base64', description: 'Base64 encoded username and password', snippet: 'Basic ${1:base64-user-password}' },
+        { label: 'Basic Raw Credential (Colon Separated)', description: 'Raw username and password', snippet: 'Basic ${1:username}:${2:password}' },
+        { label: 'Basic Raw Credential (Space Separated)', description: 'Raw username and password', snippet: 'Basic ${1:username} ${2:password}' },
+    ],
+    parse(parameters) {
+        const [, username, separator, password] = /^([^\s:]*)(:|\s+)(.*)$/s.exec(parameters) ?? [];
+        return separator ? { username, password } : undefined;
+    },
+    createHooks({ username, password }) {
+        return { options: { username, password } };
+    }
+};
+
+export function encodeBasicCredentials({ username, password }: BasicCredentials): string {
+    return `Basic ${base64(`${username}:${password}`)}`;
+}
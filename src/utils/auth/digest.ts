@@ -1,84 +1,195 @@
-import * as url from 'url';
-import { md5 } from '../misc';
+import * as crypto from 'crypto';
+import { AuthProvider } from './authProvider';
 
 import got = require('got');
 
 const uuidv4 = require('uuid/v4');
 
-export function digest(user: string, pass: string): got.AfterResponseHook {
-    return (response, retryWithMergedOptions) => {
-        if (response.statusCode === 401
-            && response.headers['www-authenticate']
-            && response.headers['www-authenticate'].split(' ')[0].toLowerCase() === 'digest') {
-            const authHeader = response.headers['www-authenticate'];
-            const method = (response as any).request.options.method;
-            const path = url.parse(response.url).path;
-            const challenge = {
-                qop: '',
-                algorithm: '',
-                realm: '',
-                nonce: '',
-                opaque: ''
-            };
-            const re = /([a-z0-9_-]+)=(?:"([^"]+)"|([a-z0-9_-]+))/gi;
-
-            /* Copy from https://github.com/request/request/blob/master/lib/auth.js */
-            while (true) {
-                const match = re.exec(authHeader);
-                if (!match) {
-                    break;
-                }
-                challenge[match[1]] = match[2] || match[3];
-            }
+type AuthChallenge = { scheme: string, params: { [name: string]: string } };
+
+/**
+ * Challenge accepted by the server for the following requests of the host, so that they're authenticated without
+ * the extra round trip
+ */
+interface DigestSession {
+    realm: string;
+    nonce: string;
+    opaque?: string;
+
+    /**
+     * Algorithm name echoed in the authorization, undefined if the challenge doesn't specify, which means MD5
+     */
+    algorithm?: string;
+    hash: string;
+    isSessionAlgorithm: boolean;
+    qop?: 'auth' | 'auth-int';
+    userhash: boolean;
+    cnonce: string;
+    nonceCount: number;
+}
 
-            const ha1Compute = function (algorithm, user, realm, pass, nonce, cnonce) {
-                const ha1 = md5(user + ':' + realm + ':' + pass);
-                if (algorithm?.toLowerCase() === 'md5-sess') {
-                    return md5(ha1 + ':' + nonce + ':' + cnonce);
-                } else {
-                    return ha1;
-                }
-            };
-
-            const qop = /(^|,)\s*auth\s*($|,)/.test(challenge.qop) && 'auth';
-            const nc = qop && '00000001';
-            const cnonce = qop && uuidv4().replace(/-/g, '');
-            const ha1 = ha1Compute(challenge.algorithm, user, challenge.realm, pass, challenge.nonce, cnonce);
-            const ha2 = md5(method + ':' + path);
-            const digestResponse = qop
-                ? md5(ha1 + ':' + challenge.nonce + ':' + nc + ':' + cnonce + ':' + qop + ':' + ha2)
-                : md5(ha1 + ':' + challenge.nonce + ':' + ha2);
-            const authValues = {
-                username: user,
-                realm: challenge.realm,
-                nonce: challenge.nonce,
-                uri: path,
-                qop: qop,
-                response: digestResponse,
-                nc: nc,
-                cnonce: cnonce,
-                algorithm: challenge.algorithm,
-                opaque: challenge.opaque
-            };
-
-            const authParams: string[] = [];
-            for (const [key, value] of Object.entries(authValues)) {
-                if (authValues[key]) {
-                    if (key === 'qop' || key === 'nc' || key === 'algorithm') {
-                        authParams.push(key + '=' + value);
-                    } else {
-                        authParams.push(key + '="' + value + '"');
-                    }
-                }
+/**
+ * Algorithms of RFC 7616 in the order of preference, along with the hash names of Node.js
+ */
+const Algorithms: [string, string][] = [['SHA-512-256', 'sha512-256'], ['SHA-256', 'sha256'], ['MD5', 'md5']];
+
+const sessions = new Map<string, DigestSession>();
+
+/**
+ * Parses the challenges of the WWW-Authenticate headers, the headers received multiple times are joined by commas,
+ * so the challenges are split where an auth scheme rather than an auth param starts
+ */
+export function parseChallenges(header: string | string[] | undefined): AuthChallenge[] {
+    const challenges: AuthChallenge[] = [];
+    const regex = /\s*,?\s*([!#$%&'*+.^_`|~\w-]+)(\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^\s,]*)))?/y;
+    for (const value of ([] as string[]).concat(header ?? [])) {
+        regex.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while (regex.lastIndex < value.length && (match = regex.exec(value))) {
+            const [, token, assignment, quoted, unquoted] = match;
+            if (assignment === undefined) {
+                challenges.push({ scheme: token.toLowerCase(), params: {} });
+            } else if (challenges.length > 0) {
+                challenges[challenges.length - 1].params[token.toLowerCase()] = quoted?.replace(/\\(.)/g, '$1') ?? unquoted;
             }
-            const updatedOptions = {
-                headers: {
-                    authorization: 'Digest ' + authParams.join(', ')
-                }
-            };
-            return retryWithMergedOptions(updatedOptions);
         }
+    }
 
-        return response;
+    return challenges;
+}
+
+/**
+ * Authenticates the requests to the hosts whose challenges have been accepted before with the cached nonce and
+ * increased nonce count
+ */
+export function digestPreemptive(user: string, pass: string): got.BeforeRequestHook {
+    return options => {
+        const session = sessions.get(getSessionKey(options.url, user));
+        if (session) {
+            options.headers.authorization = authorize(session, user, pass, options.method, `${options.url.pathname}${options.url.search}`, options.body as string | Buffer | undefined);
+        }
     };
-}
\ No newline at end of file
+}
+
+/**
+ * Answers the digest challenge of the server, and retries the request once, the challenge is then cached for the host
+ */
+export function digest(user: string, pass: string): got.AfterResponseHook {
+    return async (response, retryWithMergedOptions) => {
+        if (response.statusCode !== 401) {
+            return response;
+        }
+
+        const session = createSession(parseChallenges(response.headers['www-authenticate']));
+        if (!session) {
+            return response;
+        }
+
+        // the retried request is authenticated by the preemptive hook with the new session
+        const key = getSessionKey(new URL(response.url), user);
+        sessions.set(key, session);
+        const retriedResponse = await retryWithMergedOptions({});
+        if (retriedResponse.statusCode === 401) {
+            sessions.delete(key);
+        }
+
+        return retriedResponse;
+    };
+}
+
+function createSession(challenges: AuthChallenge[]): DigestSession | undefined {
+    const supportedHashes = crypto.getHashes();
+    const candidates: DigestSession[] = [];
+    for (const { scheme, params } of challenges) {
+        if (scheme !== 'digest' || !params.nonce) {
+            continue;
+        }
+
+        const algorithm = (params.algorithm ?? 'MD5').toUpperCase();
+        const isSessionAlgorithm = algorithm.endsWith('-SESS');
+        const [, hash] = Algorithms.find(([name]) => name === algorithm.replace(/-SESS$/, '')) ?? [];
+        if (!hash || !supportedHashes.includes(hash)) {
+            continue;
+        }
+
+        // the quality of protection is optional for the servers of RFC 2069, auth is preferred since the body isn't hashed
+        const qops = params.qop?.split(',').map(q => q.trim().toLowerCase());
+        const qop = qops?.includes('auth') ? 'auth' : qops?.includes('auth-int') ? 'auth-int' : undefined;
+        if (qops && !qop) {
+            continue;
+        }
+
+        candidates.push({
+            realm: params.realm ?? '',
+            nonce: params.nonce,
+            opaque: params.opaque,
+            algorithm: params.algorithm,
+            hash,
+            isSessionAlgorithm,
+            qop,
+            userhash: params.userhash?.toLowerCase() === 'true',
+            cnonce: uuidv4().replace(/-/g, ''),
+            nonceCount: 0
+        });
+    }
+
+    // the challenge of the strongest algorithm is answered
+    return candidates.sort((a, b) => Algorithms.findIndex(([, h]) => h === a.hash) - Algorithms.findIndex(([, h]) => h === b.hash))[0];
+}
+
+function authorize(session: DigestSession, user: string, pass: string, method: string, uri: string, body: string | Buffer | undefined): string {
+    const { realm, nonce, opaque, algorithm, qop, userhash, cnonce } = session;
+    const hash = (data: string | Buffer) => crypto.createHash(session.hash).update(data).digest('hex');
+    const nc = (++session.nonceCount).toString(16).padStart(8, '0');
+
+    let ha1 = hash(`${user}:${realm}:${pass}`);
+    if (session.isSessionAlgorithm) {
+        ha1 = hash(`${ha1}:${nonce}:${cnonce}`);
+    }
+    const ha2 = qop === 'auth-int' ? hash(`${method}:${uri}:${hash(body ?? '')}`) : hash(`${method}:${uri}`);
+    const response = qop ? hash(`${ha1}:${nonce}:${nc}:${cnonce}:${qop}:${ha2}`) : hash(`${ha1}:${nonce}:${ha2}`);
+
+    // the user name which can't be written in quoted string is sent in the extended notation of RFC 8187
+    const quote = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`;
+    const authParams: string[] = userhash
+        ? [`username=${quote(hash(`${user}:${realm}`))}`]
+        : /^[\x20-\x7e]*$/.test(user) ? [`username=${quote(user)}`] : [`username*=UTF-8''${encodeURIComponent(user)}`];
+    authParams.push(`realm=${quote(realm)}`, `nonce=${quote(nonce)}`, `uri=${quote(uri)}`);
+    if (algorithm) {
+        authParams.push(`algorithm=${algorithm}`);
+    }
+    if (qop) {
+        authParams.push(`qop=${qop}`, `nc=${nc}`, `cnonce=${quote(cnonce)}`);
+    }
+    authParams.push(`response=${quote(response)}`);
+    if (opaque !== undefined) {
+        authParams.push(`opaque=${quote(opaque)}`);
+    }
+    if (userhash) {
+        authParams.push('userhash=true');
+    }
+
+    return `Digest ${authParams.join(', ')}`;
+}
+
+function getSessionKey({ protocol, host }: URL, user: string): string {
+    return `${protocol}//${host} ${user}`;
+}
+
+export const digestAuthProvider: AuthProvider<{ user: string, pass: string }> = {
+    scheme: 'Digest',
+    completions: [
+        { label: 'Digest', description: 'Raw username and password', snippet: 'Digest ${1:username} ${2:password}' }
+    ],
+    parse(parameters) {
+        // the password is the rest after the username, which may contain spaces
+        const [, user, pass] = /^(\S+)\s+(.+)$/s.exec(parameters) ?? [];
+        return user ? { user, pass } : undefined;
+    },
+    validate(parameters) {
+        return this.parse(parameters) ? undefined : 'Digest authentication requires the raw username and password separated by space';
+    },
+    createHooks({ user, pass }) {
+        return { beforeRequest: [digestPreemptive(user, pass)], afterResponse: [digest(user, pass)] };
+    }
+};
@@ -0,0 +1,86 @@
+import * as crypto from 'crypto';
+import { AuthProvider } from './authProvider';
+import { createSigningContext, getSharedSecret, getSignableBody, resolveSigningProfile, SigningProfile } from './signingProfile';
+
+import got = require('got');
+
+/**
+ * Authenticates the request with the Hawk authorization header, the MAC covers the method, the request target, the
+ * host and port, and the hash of the body unless disabled
+ */
+export function hawk(profile: SigningProfile): got.BeforeRequestHook {
+    const algorithm = (profile.algorithm ?? 'sha256').toLowerCase().replace(/-/g, '');
+    if (!crypto.getHashes().includes(algorithm)) {
+        throw new Error(`Hawk algorithm ${profile.algorithm} is not supported.`);
+    }
+
+    return options => {
+        const { timestamp, nonce } = createSigningContext();
+        const { url } = options;
+        const port = url.port || (url.protocol === 'https:' ? '443' : '80');
+
+        let hash = '';
+        if (profile.includePayloadHash ?? true) {
+            const contentType = String(options.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+            hash = crypto.createHash(algorithm)
+                .update(`hawk.1.payload\n${contentType}\n`)
+                .update(getSignableBody(options))
+                .update('\n')
+                .digest('base64');
+        }
+
+        // the new lines and backslashes of the ext are escaped in the normalized string
+        const ext = profile.ext?.replace(/[\\\n]/g, m => m === '\n' ? '\\n' : '\\\\') ?? '';
+        const normalized = [
+            'hawk.1.header',
+            timestamp,
+            nonce,
+            options.method.toUpperCase(),
+            `${url.pathname}${url.search}`,
+            url.hostname.toLowerCase(),
+            port,
+            hash,
+            ext,
+            ...profile.app ? [profile.app, profile.dlg ?? ''] : []
+        ].join('\n') + '\n';
+        const mac = crypto.createHmac(algorithm, getSharedSecret(profile)).update(normalized).digest('base64');
+
+        const attributes: [string, string | number | undefined][] = [
+            ['id', profile.keyId],
+            ['ts', timestamp],
+            ['nonce', nonce],
+            ['hash', hash || undefined],
+            ['ext', profile.ext],
+            ['mac', mac],
+            ['app', profile.app],
+            ['dlg', profile.app ? profile.dlg : undefined]
+        ];
+        options.headers.authorization = `Hawk ${attributes
+            .filter(([, value]) => value !== undefined && value !== '')
+            .map(([name, value]) => `${name}="${String(value).replace(/["\\]/g, '\\$&')}"`)
+            .join(', ')}`;
+    };
+}
+
+export const hawkAuthProvider: AuthProvider<string> = {
+    scheme: 'Hawk',
+    completions: [
+        {
+            label: 'Hawk',
+            description: 'Authenticate with Hawk using the credentials of the signing profile defined in $signing of the environment',
+            snippet: 'Hawk ${1:profileName}'
+        }
+    ],
+    parse(parameters) {
+        // the Hawk authorizations written in the request are sent as is
+        return /^[\w.-]+$/.test(parameters) ? parameters : undefined;
+    },
+    async createHooks(profileName, host) {
+        const profile = await resolveSigningProfile(host, this.scheme, profileName);
+        if (!profile.keyId) {
+            throw new Error(`Signing profile "${profileName}" of Hawk authentication requires the keyId.`);
+        }
+
+        return { beforeRequest: [hawk(profile)] };
+    }
+};
@@ -0,0 +1,54 @@
+import * as crypto from 'crypto';
+import { AuthProvider } from './authProvider';
+import { addContentDigest, createSigningContext, getComponentValue, getSharedSecret, resolveSigningProfile, SigningProfile } from './signingProfile';
+
+import got = require('got');
+
+/**
+ * Signs the values of the covered components joined by new lines with HMAC, and sets the signature header in the
+ * format of the profile, which is `HMAC {keyId}:{timestamp}:{signature}` over the method, request target and
+ * timestamp by default
+ */
+export function hmacSignature(profile: SigningProfile): got.BeforeRequestHook {
+    const algorithm = (profile.algorithm ?? 'sha256').toLowerCase().replace(/^hmac-/, '').replace(/-/g, '');
+    if (!crypto.getHashes().includes(algorithm)) {
+        throw new Error(`HMAC algorithm ${profile.algorithm} is not supported.`);
+    }
+
+    return options => {
+        const context = createSigningContext();
+        const components = profile.components ?? ['@method', '@request-target', '@timestamp'];
+        addContentDigest(options, components);
+
+        const stringToSign = components.map(c => getComponentValue(options, c, context)).join('\n');
+        const signature = crypto.createHmac(algorithm, getSharedSecret(profile)).update(stringToSign).digest(profile.encoding ?? 'base64');
+        const values: { [name: string]: string } = {
+            keyId: profile.keyId ?? '',
+            signature,
+            timestamp: String(context.timestamp),
+            nonce: context.nonce,
+            headers: components.map(c => c.toLowerCase()).join(';')
+        };
+        options.headers[(profile.header || 'Authorization').toLowerCase()] = (profile.format || 'HMAC {keyId}:{timestamp}:{signature}')
+            .replace(/\{(keyId|signature|timestamp|nonce|headers)\}/g, (_, name) => values[name]);
+    };
+}
+
+export const hmacAuthProvider: AuthProvider<string> = {
+    scheme: 'HMAC',
+    completions: [
+        {
+            label: 'HMAC',
+            description: 'Sign the request with HMAC using the signing profile defined in $signing of the environment',
+            snippet: 'HMAC ${1:profileName}'
+        }
+    ],
+    parse(parameters) {
+        // the signatures written in the request are sent as is
+        return /^[\w.-]+$/.test(parameters) ? parameters : undefined;
+    },
+    async createHooks(profileName, host) {
+        const profile = await resolveSigningProfile(host, this.scheme, profileName);
+        return { beforeRequest: [hmacSignature(profile)] };
+    }
+};
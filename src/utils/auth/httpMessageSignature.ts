@@ -0,0 +1,102 @@
+import * as crypto from 'crypto';
+import { AuthProvider } from './authProvider';
+import { addContentDigest, createSigningContext, getComponentValue, getSharedSecret, resolveSigningProfile, SigningProfile } from './signingProfile';
+
+import got = require('got');
+
+type SignatureAlgorithm = (data: Buffer, profile: SigningProfile) => Buffer;
+
+/**
+ * Algorithms registered in RFC 9421
+ */
+const Algorithms: { [name: string]: SignatureAlgorithm } = {
+    'hmac-sha256': (data, profile) => crypto.createHmac('sha256', getSharedSecret(profile)).update(data).digest(),
+    'rsa-pss-sha512': (data, { key }) => crypto.sign('sha512', data, { key: key!, padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: 64 }),
+    'rsa-v1_5-sha256': (data, { key }) => crypto.sign('sha256', data, key!),
+    'ecdsa-p256-sha256': (data, { key }) => crypto.sign('sha256', data, { key: key!, dsaEncoding: 'ieee-p1363' }),
+    'ecdsa-p384-sha384': (data, { key }) => crypto.sign('sha384', data, { key: key!, dsaEncoding: 'ieee-p1363' }),
+    'ed25519': (data, { key }) => crypto.sign(null, data, key!)
+};
+
+/**
+ * Signs the request with the Signature-Input and Signature headers of RFC 9421, the signature base is built from the
+ * final request so that the headers added by got like Content-Length can be covered
+ */
+export function httpMessageSignature(profile: SigningProfile): got.BeforeRequestHook {
+    const algorithm = profile.algorithm?.toLowerCase() ?? inferAlgorithm(profile.key!);
+    const sign = Algorithms[algorithm];
+    if (!sign) {
+        throw new Error(`HTTP message signature algorithm ${profile.algorithm} is not supported.`);
+    }
+
+    return options => {
+        const context = createSigningContext();
+        const components = profile.components ?? (options.body ? ['@method', '@target-uri', 'content-digest'] : ['@method', '@target-uri']);
+        addContentDigest(options, components);
+
+        const parameters = [`created=${context.timestamp}`];
+        if (profile.expiresIn) {
+            parameters.push(`expires=${context.timestamp + Number(profile.expiresIn)}`);
+        }
+        if (profile.nonce) {
+            parameters.push(`nonce="${context.nonce}"`);
+        }
+        if (profile.keyId) {
+            parameters.push(`keyid="${profile.keyId}"`);
+        }
+        parameters.push(`alg="${algorithm}"`);
+        if (profile.tag) {
+            parameters.push(`tag="${profile.tag}"`);
+        }
+
+        const signatureParams = `(${components.map(c => `"${c.toLowerCase()}"`).join(' ')});${parameters.join(';')}`;
+        const signatureBase = [
+            ...components.map(c => `"${c.toLowerCase()}": ${getComponentValue(options, c, context)}`),
+            `"@signature-params": ${signatureParams}`
+        ].join('\n');
+
+        const label = profile.label || 'sig1';
+        options.headers['signature-input'] = `${label}=${signatureParams}`;
+        options.headers.signature = `${label}=:${sign(Buffer.from(signatureBase), profile).toString('base64')}:`;
+    };
+}
+
+/**
+ * Infers the algorithm from the type of the private key, the keys which aren't PEM encoded are the HMAC secrets
+ */
+function inferAlgorithm(key: string): string {
+    if (!key.includes('-----BEGIN')) {
+        return 'hmac-sha256';
+    }
+
+    const privateKey = crypto.createPrivateKey(key);
+    switch (privateKey.asymmetricKeyType) {
+        case 'ed25519':
+            return 'ed25519';
+        case 'ec':
+            return privateKey.asymmetricKeyDetails?.namedCurve === 'secp384r1' ? 'ecdsa-p384-sha384' : 'ecdsa-p256-sha256';
+        case 'rsa-pss':
+            return 'rsa-pss-sha512';
+        default:
+            return 'rsa-v1_5-sha256';
+    }
+}
+
+export const httpMessageSignatureAuthProvider: AuthProvider<string> = {
+    scheme: 'Signature',
+    completions: [
+        {
+            label: 'HTTP Message Signature',
+            description: 'Sign the request as RFC 9421 with the signing profile defined in $signing of the environment',
+            snippet: 'Signature ${1:profileName}'
+        }
+    ],
+    parse(parameters) {
+        // the signatures written in the request are sent as is
+        return /^[\w.-]+$/.test(parameters) ? parameters : undefined;
+    },
+    async createHooks(profileName, host) {
+        const profile = await resolveSigningProfile(host, this.scheme, profileName);
+        return { beforeRequest: [httpMessageSignature(profile)] };
+    }
+};
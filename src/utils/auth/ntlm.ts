@@ -0,0 +1,253 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as https from 'https';
+import * as os from 'os';
+import { AuthProvider } from './authProvider';
+
+import got = require('got');
+
+export interface NtlmCredentials {
+    domain: string;
+    user: string;
+    password: string;
+}
+
+export interface NtlmChallenge {
+    flags: number;
+    serverChallenge: Buffer;
+    targetInfo: Buffer;
+}
+
+const Signature = Buffer.from('NTLMSSP\0', 'ascii');
+
+const NegotiateUnicode = 0x00000001;
+const NegotiateOem = 0x00000002;
+const RequestTarget = 0x00000004;
+const NegotiateNtlm = 0x00000200;
+const NegotiateAlwaysSign = 0x00008000;
+const NegotiateExtendedSessionSecurity = 0x00080000;
+const Negotiate128 = 0x20000000;
+const Negotiate56 = 0x80000000;
+
+const NegotiateFlags = NegotiateUnicode | NegotiateOem | RequestTarget | NegotiateNtlm | NegotiateAlwaysSign
+    | NegotiateExtendedSessionSecurity | Negotiate128 | Negotiate56;
+
+const MsvAvEOL = 0;
+const MsvAvTimestamp = 7;
+
+/**
+ * Creates the type 1 message which starts the handshake
+ */
+export function createNegotiateMessage(): Buffer {
+    const message = Buffer.alloc(32);
+    Signature.copy(message);
+    message.writeUInt32LE(1, 8);
+    message.writeUInt32LE(NegotiateFlags >>> 0, 12);
+    return message;
+}
+
+/**
+ * Parses the type 2 message sent by the server
+ */
+export function parseChallengeMessage(message: Buffer): NtlmChallenge {
+    if (message.length < 32 || !message.slice(0, 8).equals(Signature) || message.readUInt32LE(8) !== 2) {
+        throw new Error('Invalid NTLM challenge message is received from the server.');
+    }
+
+    const targetInfoLength = message.length >= 48 ? message.readUInt16LE(40) : 0;
+    const targetInfoOffset = message.length >= 48 ? message.readUInt32LE(44) : 0;
+    return {
+        flags: message.readUInt32LE(20),
+        serverChallenge: message.slice(24, 32),
+        targetInfo: message.slice(targetInfoOffset, targetInfoOffset + targetInfoLength)
+    };
+}
+
+/**
+ * Creates the type 3 message with the NTLMv2 responses to the challenge
+ */
+export function createAuthenticateMessage(
+    { domain, user, password }: NtlmCredentials,
+    { flags, serverChallenge, targetInfo }: NtlmChallenge,
+    clientChallenge: Buffer = crypto.randomBytes(8),
+    workstation: string = os.hostname().split('.')[0].toUpperCase()): Buffer {
+    const encode = (text: string) => Buffer.from(text, flags & NegotiateUnicode ? 'utf16le' : 'ascii');
+    const ntowfv2 = hmacMd5(md4(Buffer.from(password, 'utf16le')), Buffer.from(user.toUpperCase() + domain, 'utf16le'));
+
+    // the timestamp of the server is preferred, in which case the LMv2 response must be omitted
+    const serverTimestamp = findAvPair(targetInfo, MsvAvTimestamp);
+    const timestamp = serverTimestamp ?? toFileTime(Date.now());
+    const blob = Buffer.concat([
+        Buffer.from([1, 1, 0, 0, 0, 0, 0, 0]),
+        timestamp,
+        clientChallenge,
+        Buffer.alloc(4),
+        targetInfo,
+        Buffer.alloc(4)
+    ]);
+    const ntProof = hmacMd5(ntowfv2, Buffer.concat([serverChallenge, blob]));
+    const ntResponse = Buffer.concat([ntProof, blob]);
+    const lmResponse = serverTimestamp
+        ? Buffer.alloc(24)
+        : Buffer.concat([hmacMd5(ntowfv2, Buffer.concat([serverChallenge, clientChallenge])), clientChallenge]);
+
+    const fields = [lmResponse, ntResponse, encode(domain), encode(user), encode(workstation), Buffer.alloc(0)];
+    const header = Buffer.alloc(64);
+    Signature.copy(header);
+    header.writeUInt32LE(3, 8);
+    let offset = header.length;
+    fields.forEach((field, index) => {
+        // each field is referenced by its length, allocated length and offset in the payload
+        header.writeUInt16LE(field.length, 12 + index * 8);
+        header.writeUInt16LE(field.length, 14 + index * 8);
+        header.writeUInt32LE(offset, 16 + index * 8);
+        offset += field.length;
+    });
+    header.writeUInt32LE((flags & NegotiateFlags) >>> 0, 60);
+    return Buffer.concat([header, ...fields]);
+}
+
+/**
+ * Performs the NTLM handshake once the server challenges the request, the negotiate and authenticate messages must
+ * be sent over the same connection, which is kept alive by the agents created for the request
+ */
+export function ntlm(scheme: string, credentials: NtlmCredentials, agents: { http: http.Agent, https: https.Agent }): got.AfterResponseHook {
+    return async (response, retryWithMergedOptions) => {
+        try {
+            if (response.statusCode !== 401 || getChallenge(response, scheme) === undefined) {
+                return response;
+            }
+
+            const challengeResponse = await retryWithMergedOptions({
+                headers: { authorization: `${scheme} ${createNegotiateMessage().toString('base64')}` }
+            });
+            const challenge = getChallenge(challengeResponse, scheme);
+            if (challengeResponse.statusCode !== 401 || !challenge) {
+                return challengeResponse;
+            }
+
+            const authenticateMessage = createAuthenticateMessage(credentials, parseChallengeMessage(Buffer.from(challenge, 'base64')));
+            return await retryWithMergedOptions({
+                headers: { authorization: `${scheme} ${authenticateMessage.toString('base64')}` }
+            });
+        } finally {
+            agents.http.destroy();
+            agents.https.destroy();
+        }
+    };
+}
+
+function createNtlmAuthProvider(scheme: string, description: string): AuthProvider<NtlmCredentials> {
+    return {
+        scheme,
+        completions: [
+            { label: scheme, description, snippet: `${scheme} \${1:domain}\\\\\${2:username} \${3:password}` }
+        ],
+        parse(parameters) {
+            // the user is written as DOMAIN\user or user@domain, and the password is the rest which may contain spaces
+            const [, account, password] = /^(\S+)\s+(.+)$/s.exec(parameters) ?? [];
+            if (!account) {
+                return undefined;
+            }
+
+            const separator = account.indexOf('\\');
+            return separator >= 0
+                ? { domain: account.substr(0, separator), user: account.substr(separator + 1), password }
+                : { domain: '', user: account, password };
+        },
+        validate(parameters) {
+            return this.parse(parameters) ? undefined : `${scheme} authentication requires the raw username and password separated by space`;
+        },
+        createHooks(credentials) {
+            const agents = {
+                http: new http.Agent({ keepAlive: true, maxSockets: 1 }),
+                https: new https.Agent({ keepAlive: true, maxSockets: 1 })
+            };
+            return {
+                options: { agent: agents },
+                afterResponse: [ntlm(scheme, credentials, agents)]
+            };
+        }
+    };
+}
+
+export const ntlmAuthProvider = createNtlmAuthProvider('NTLM', 'NTLM handshake with raw domain user and password');
+
+/**
+ * The Negotiate scheme is served with NTLM messages, since Kerberos tickets can't be acquired here
+ */
+export const negotiateAuthProvider = createNtlmAuthProvider('Negotiate', 'Negotiate with NTLM handshake using raw domain user and password');
+
+function getChallenge(response: got.Response, scheme: string): string | undefined {
+    const regex = new RegExp(`(?:^|,)\\s*${scheme}(?:\\s+([A-Za-z0-9+/]+=*))?\\s*(?:,|$)`, 'i');
+    for (const header of ([] as string[]).concat(response.headers['www-authenticate'] ?? [])) {
+        const match = regex.exec(header);
+        if (match) {
+            return match[1] ?? '';
+        }
+    }
+
+    return undefined;
+}
+
+function findAvPair(targetInfo: Buffer, id: number): Buffer | undefined {
+    for (let offset = 0; offset + 4 <= targetInfo.length;) {
+        const avId = targetInfo.readUInt16LE(offset);
+        const length = targetInfo.readUInt16LE(offset + 2);
+        if (avId === MsvAvEOL) {
+            break;
+        } else if (avId === id) {
+            return targetInfo.slice(offset + 4, offset + 4 + length);
+        }
+        offset += 4 + length;
+    }
+
+    return undefined;
+}
+
+function toFileTime(milliseconds: number): Buffer {
+    // the FILETIME counts 100 nanoseconds since 1601-01-01
+    const fileTime = (BigInt(milliseconds) + BigInt(11644473600000)) * BigInt(10000);
+    const buffer = Buffer.alloc(8);
+    buffer.writeBigUInt64LE(fileTime);
+    return buffer;
+}
+
+function hmacMd5(key: Buffer, data: Buffer): Buffer {
+    return crypto.createHmac('md5', key).update(data).digest();
+}
+
+/**
+ * MD4 of RFC 1320, which isn't provided by the OpenSSL 3 builds of Node.js
+ */
+function md4(data: Buffer): Buffer {
+    const padded = Buffer.alloc((((data.length + 8) >> 6) + 1) * 64);
+    data.copy(padded);
+    padded[data.length] = 0x80;
+    padded.writeUInt32LE((data.length * 8) >>> 0, padded.length - 8);
+    padded.writeUInt32LE(Math.floor(data.length / 0x20000000), padded.length - 4);
+
+    const rotate = (x: number, n: number) => (x << n) | (x >>> (32 - n));
+    const rounds: [(x: number, y: number, z: number) => number, number, number[], number[]][] = [
+        [(x, y, z) => (x & y) | (~x & z), 0, [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15], [3, 7, 11, 19]],
+        [(x, y, z) => (x & y) | (x & z) | (y & z), 0x5a827999, [0, 4, 8, 12, 1, 5, 9, 13, 2, 6, 10, 14, 3, 7, 11, 15], [3, 5, 9, 13]],
+        [(x, y, z) => x ^ y ^ z, 0x6ed9eba1, [0, 8, 4, 12, 2, 10, 6, 14, 1, 9, 5, 13, 3, 11, 7, 15], [3, 9, 11, 15]]
+    ];
+    const state = [0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476];
+    for (let offset = 0; offset < padded.length; offset += 64) {
+        const words = Array.from({ length: 16 }, (_, i) => padded.readUInt32LE(offset + i * 4));
+        const v = [...state];
+        for (const [fn, constant, order, shifts] of rounds) {
+            order.forEach((k, i) => {
+                // the operations target a, d, c, b in turn
+                const t = (4 - i % 4) % 4;
+                v[t] = rotate((v[t] + fn(v[(t + 1) % 4], v[(t + 2) % 4], v[(t + 3) % 4]) + words[k] + constant) | 0, shifts[i % 4]);
+            });
+        }
+        state.forEach((value, i) => state[i] = (value + v[i]) | 0);
+    }
+
+    const digest = Buffer.alloc(16);
+    state.forEach((value, i) => digest.writeInt32LE(value, i * 4));
+    return digest;
+}
@@ -0,0 +1,407 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import fetch from 'node-fetch';
+import { CancellationToken, env, ProgressLocation, SecretStorage, TextDocument, Uri, window } from 'vscode';
+import * as Constants from '../../common/constants';
+import { EnvironmentController } from '../../controllers/environmentController';
+import { SystemSettings } from '../../models/configurationSettings';
+import { VariableProcessor } from '../variableProcessor';
+import { CALLBACK_PORT, sha256, toBase64UrlEncoding } from './oidcClient';
+
+export type OAuth2GrantType = 'client_credentials' | 'password' | 'authorization_code' | 'device_code' | 'refresh_token';
+
+/**
+ * The OAuth 2.0 profile defined in the `$oauth2` object of an environment, string values can reference variables
+ */
+export interface OAuth2Profile {
+    grantType: OAuth2GrantType;
+    tokenEndpoint: string;
+    authorizationEndpoint?: string;
+    deviceAuthorizationEndpoint?: string;
+    clientId?: string;
+    clientSecret?: string;
+
+    /**
+     * Sends the client credentials in the Basic authorization header or in the request body, defaults to `basic`
+     */
+    clientAuthentication?: 'basic' | 'body';
+    scope?: string;
+    audience?: string;
+    username?: string;
+    password?: string;
+    redirectUri?: string;
+    usePkce?: boolean;
+    refreshToken?: string;
+}
+
+interface OAuth2Token {
+    accessToken: string;
+    refreshToken?: string;
+
+    /**
+     * Epoch time in milliseconds when the access token expires, undefined if the server doesn't tell
+     */
+    expiresAt?: number;
+}
+
+interface StoredOAuth2Token {
+    /**
+     * Hash of the resolved profile, the token is discarded once the profile is changed
+     */
+    fingerprint: string;
+    token: OAuth2Token;
+}
+
+type TokenEndpointResponse = {
+    access_token?: string;
+    refresh_token?: string;
+    expires_in?: number | string;
+    error?: string;
+    error_description?: string;
+    [key: string]: any;
+};
+
+/**
+ * Acquires the access tokens of the OAuth 2.0 profiles configured per environment, the tokens are cached in the secret storage
+ * and refreshed automatically before they expire
+ */
+export class OAuth2TokenProvider {
+    private static readonly expirySkewInMilliseconds = 60 * 1000;
+
+    private static readonly interactionTimeoutInMilliseconds = 5 * 60 * 1000;
+
+    private static readonly deviceCodeGrantType = 'urn:ietf:params:oauth:grant-type:device_code';
+
+    private static secrets?: SecretStorage;
+
+    private static readonly memoryStorage = new Map<string, string>();
+
+    private static readonly pendingRequests = new Map<string, Promise<string>>();
+
+    public static initialize(secrets: SecretStorage) {
+        this.secrets = secrets;
+    }
+
+    public static async getAccessToken(profileName: string, document?: TextDocument): Promise<string> {
+        const environmentName = await this.getEnvironmentName();
+        const profile = this.getProfiles(environmentName)[profileName];
+        if (!profile) {
+            throw new Error(`OAuth 2.0 profile "${profileName}" is not defined in the $oauth2 of the current or $shared environment.`);
+        }
+
+        const resolvedProfile = await this.resolveProfile(profile, document);
+        const key = this.getStorageKey(environmentName, profileName);
+
+        // the same token may be referenced several times in a request, only acquire it once
+        let pending = this.pendingRequests.get(key);
+        if (!pending) {
+            pending = this.getOrAcquireToken(key, profileName, resolvedProfile).finally(() => this.pendingRequests.delete(key));
+            this.pendingRequests.set(key, pending);
+        }
+
+        return pending;
+    }
+
+    public static async clear() {
+        this.memoryStorage.clear();
+        const environments = SystemSettings.Instance.environmentVariables;
+        for (const environmentName of Object.keys(environments)) {
+            for (const profileName of Object.keys(this.getProfiles(environmentName))) {
+                await this.secrets?.delete(this.getStorageKey(environmentName, profileName));
+            }
+        }
+    }
+
+    private static async getOrAcquireToken(key: string, profileName: string, profile: OAuth2Profile): Promise<string> {
+        const fingerprint = crypto.createHash('sha256').update(JSON.stringify(profile)).digest('hex');
+        const stored = await this.load(key);
+        let token = stored?.fingerprint === fingerprint ? stored.token : undefined;
+
+        if (token && !this.isExpiring(token)) {
+            return token.accessToken;
+        }
+
+        if (token?.refreshToken) {
+            try {
+                token = await this.refresh(profile, token.refreshToken);
+            } catch {
+                // the refresh token may be expired or revoked, so the token is acquired again with the grant of the profile
+                token = undefined;
+            }
+        } else {
+            token = undefined;
+        }
+
+        token = token ?? await this.acquire(profileName, profile);
+        await this.save(key, { fingerprint, token });
+        return token.accessToken;
+    }
+
+    private static acquire(profileName: string, profile: OAuth2Profile): Promise<OAuth2Token> {
+        switch (profile.grantType) {
+            case 'client_credentials':
+                return this.requestToken(profile, { grant_type: 'client_credentials', scope: profile.scope });
+            case 'password':
+                this.ensure(profile, profileName, 'username', 'password');
+                return this.requestToken(profile, { grant_type: 'password', username: profile.username, password: profile.password, scope: profile.scope });
+            case 'refresh_token':
+                this.ensure(profile, profileName, 'refreshToken');
+                return this.refresh(profile, profile.refreshToken!);
+            case 'authorization_code':
+                this.ensure(profile, profileName, 'authorizationEndpoint', 'clientId');
+                return this.acquireByAuthorizationCode(profile);
+            case 'device_code':
+                this.ensure(profile, profileName, 'deviceAuthorizationEndpoint', 'clientId');
+                return this.acquireByDeviceCode(profile);
+            default:
+                throw new Error(`Grant type "${profile.grantType}" of OAuth 2.0 profile "${profileName}" is not supported.`);
+        }
+    }
+
+    private static async refresh(profile: OAuth2Profile, refreshToken: string): Promise<OAuth2Token> {
+        const token = await this.requestToken(profile, { grant_type: 'refresh_token', refresh_token: refreshToken, scope: profile.scope });
+
+        // the refresh token is kept if the server doesn't rotate it
+        return { ...token, refreshToken: token.refreshToken ?? refreshToken };
+    }
+
+    private static async acquireByAuthorizationCode(profile: OAuth2Profile): Promise<OAuth2Token> {
+        const redirectUri = new URL(profile.redirectUri || `http://localhost:${CALLBACK_PORT}`);
+        const state = toBase64UrlEncoding(crypto.randomBytes(16));
+        const codeVerifier = toBase64UrlEncoding(crypto.randomBytes(32));
+        const authorizationUrl = new URL(profile.authorizationEndpoint!);
+        const parameters: { [key: string]: string | undefined } = {
+            response_type: 'code',
+            client_id: profile.clientId,
+            redirect_uri: redirectUri.toString(),
+            scope: profile.scope,
+            audience: profile.audience,
+            state
+        };
+        if (profile.usePkce !== false) {
+            parameters.code_challenge = toBase64UrlEncoding(sha256(codeVerifier));
+            parameters.code_challenge_method = 'S256';
+        }
+        for (const [name, value] of Object.entries(parameters)) {
+            if (value) {
+                authorizationUrl.searchParams.set(name, value);
+            }
+        }
+
+        const code = await window.withProgress(
+            { location: ProgressLocation.Notification, title: 'Waiting for the OAuth 2.0 authorization in the browser...', cancellable: true },
+            (_, cancellationToken) => this.listenForAuthorizationCode(redirectUri, state, authorizationUrl.toString(), cancellationToken));
+
+        return this.requestToken(profile, {
+            grant_type: 'authorization_code',
+            code,
+            redirect_uri: redirectUri.toString(),
+            code_verifier: profile.usePkce !== false ? codeVerifier : undefined
+        });
+    }
+
+    private static listenForAuthorizationCode(redirectUri: URL, state: string, authorizationUrl: string, cancellationToken: CancellationToken): Promise<string> {
+        return new Promise<string>((resolve, reject) => {
+            const server = http.createServer((req, res) => {
+                const url = new URL(req.url ?? '/', redirectUri);
+                if (url.pathname !== redirectUri.pathname) {
+                    res.writeHead(404);
+                    res.end();
+                    return;
+                }
+
+                const error = url.searchParams.get('error');
+                const code = url.searchParams.get('code');
+                res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
+                if (error || !code || url.searchParams.get('state') !== state) {
+                    res.end('Authorization failed. You can close this window now.');
+                    finish(() => reject(new Error(`OAuth 2.0 authorization failed${error ? `, ${error}${url.searchParams.get('error_description') ? `: ${url.searchParams.get('error_description')}` : ''}` : '.'}`)));
+                } else {
+                    res.end('Authorization succeeded. You can close this window now.');
+                    finish(() => resolve(code));
+                }
+            });
+
+            const timer = setTimeout(() => finish(() => reject(new Error('OAuth 2.0 authorization timed out.'))), this.interactionTimeoutInMilliseconds);
+            const cancellation = cancellationToken.onCancellationRequested(() => finish(() => reject(new Error('OAuth 2.0 authorization is cancelled.'))));
+            const finish = (callback: () => void) => {
+                clearTimeout(timer);
+                cancellation.dispose();
+                server.close();
+                callback();
+            };
+
+            server.on('error', error => finish(() => reject(error)));
+            server.listen(Number(redirectUri.port) || 80, redirectUri.hostname, () => env.openExternal(Uri.parse(authorizationUrl)));
+        });
+    }
+
+    private static async acquireByDeviceCode(profile: OAuth2Profile): Promise<OAuth2Token> {
+        const response = await this.postForm(profile, profile.deviceAuthorizationEndpoint!, { client_id: profile.clientId, scope: profile.scope, audience: profile.audience }, false);
+        const { device_code, user_code, verification_uri, verification_uri_complete, expires_in } = response.body;
+        if (!response.ok || !device_code) {
+            throw new Error(`Failed to start the OAuth 2.0 device authorization, ${this.describeError(response)}`);
+        }
+
+        const verificationUri = verification_uri_complete || verification_uri;
+        window.showInformationMessage(`To sign in, open ${verification_uri} and enter the code ${user_code}.`, 'Copy Code and Open').then(async action => {
+            if (action) {
+                await env.clipboard.writeText(user_code);
+                await env.openExternal(Uri.parse(verificationUri));
+            }
+        });
+
+        return window.withProgress(
+            { location: ProgressLocation.Notification, title: `Waiting for the OAuth 2.0 sign-in with code ${user_code}...`, cancellable: true },
+            async (_, cancellationToken) => {
+                let interval = Number(response.body.interval || 5) * 1000;
+                const deadline = Date.now() + (Number(expires_in) * 1000 || this.interactionTimeoutInMilliseconds);
+                while (Date.now() < deadline) {
+                    await new Promise(resolve => setTimeout(resolve, interval));
+                    if (cancellationToken.isCancellationRequested) {
+                        throw new Error('OAuth 2.0 device authorization is cancelled.');
+                    }
+
+                    const tokenResponse = await this.postForm(profile, profile.tokenEndpoint, { grant_type: this.deviceCodeGrantType, device_code });
+                    if (tokenResponse.body.error === 'authorization_pending') {
+                        continue;
+                    } else if (tokenResponse.body.error === 'slow_down') {
+                        interval += 5000;
+                        continue;
+                    }
+
+                    return this.parseToken(profile, tokenResponse);
+                }
+
+                throw new Error('OAuth 2.0 device authorization timed out.');
+            });
+    }
+
+    private static async requestToken(profile: OAuth2Profile, parameters: { [key: string]: string | undefined }): Promise<OAuth2Token> {
+        if (profile.audience) {
+            parameters.audience = profile.audience;
+        }
+
+        return this.parseToken(profile, await this.postForm(profile, profile.tokenEndpoint, parameters));
+    }
+
+    private static parseToken(profile: OAuth2Profile, response: { ok: boolean, status: number, body: TokenEndpointResponse }): OAuth2Token {
+        const { access_token, refresh_token, expires_in } = response.body;
+        if (!response.ok || !access_token) {
+            throw new Error(`Failed to acquire the OAuth 2.0 token from ${profile.tokenEndpoint}, ${this.describeError(response)}`);
+        }
+
+        return {
+            accessToken: access_token,
+            refreshToken: refresh_token,
+            expiresAt: expires_in ? Date.now() + Number(expires_in) * 1000 : undefined
+        };
+    }
+
+    private static async postForm(
+        profile: OAuth2Profile,
+        url: string,
+        parameters: { [key: string]: string | undefined },
+        authenticateClient: boolean = true): Promise<{ ok: boolean, status: number, body: TokenEndpointResponse }> {
+        const headers: { [key: string]: string } = {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            'Accept': 'application/json'
+        };
+        const body = new URLSearchParams();
+        for (const [name, value] of Object.entries(parameters)) {
+            if (value) {
+                body.set(name, value);
+            }
+        }
+
+        if (authenticateClient && profile.clientId) {
+            if (profile.clientSecret && profile.clientAuthentication !== 'body') {
+                const credentials = `${encodeURIComponent(profile.clientId)}:${encodeURIComponent(profile.clientSecret)}`;
+                headers['Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+            } else {
+                body.set('client_id', profile.clientId);
+                if (profile.clientSecret) {
+                    body.set('client_secret', profile.clientSecret);
+                }
+            }
+        }
+
+        const response = await fetch(url, { method: 'POST', headers, body: body.toString() });
+        const text = await response.text();
+        let json: TokenEndpointResponse;
+        try {
+            json = JSON.parse(text);
+        } catch {
+            // some servers still respond in the form encoded format
+            json = Object.fromEntries(new URLSearchParams(text));
+        }
+
+        return { ok: response.ok, status: response.status, body: json };
+    }
+
+    private static describeError({ status, body }: { status: number, body: TokenEndpointResponse }): string {
+        return body.error
+            ? `${body.error}${body.error_description ? `: ${body.error_description}` : ''}`
+            : `the server responded with ${status}.`;
+    }
+
+    private static isExpiring(token: OAuth2Token): boolean {
+        return token.expiresAt !== undefined && token.expiresAt - this.expirySkewInMilliseconds <= Date.now();
+    }
+
+    private static ensure(profile: OAuth2Profile, profileName: string, ...properties: (keyof OAuth2Profile)[]) {
+        const missing = properties.filter(p => !profile[p]);
+        if (missing.length > 0) {
+            throw new Error(`${missing.join(', ')} ${missing.length > 1 ? 'are' : 'is'} required for the ${profile.grantType} grant of OAuth 2.0 profile "${profileName}".`);
+        }
+    }
+
+    private static async getEnvironmentName(): Promise<string> {
+        const { name } = await EnvironmentController.getCurrentEnvironment();
+        return name === Constants.NoEnvironmentSelectedName ? Constants.SharedEnvironmentName : name;
+    }
+
+    private static getProfiles(environmentName: string): { [name: string]: OAuth2Profile } {
+        const environments = SystemSettings.Instance.environmentVariables as { [key: string]: { [key: string]: any } };
+        return {
+            ...environments[Constants.SharedEnvironmentName]?.[Constants.OAuth2ProfilesName],
+            ...environments[environmentName]?.[Constants.OAuth2ProfilesName]
+        };
+    }
+
+    private static async resolveProfile(profile: OAuth2Profile, document?: TextDocument): Promise<OAuth2Profile> {
+        const resolved = { ...profile };
+        for (const [name, value] of Object.entries(profile)) {
+            if (typeof value === 'string') {
+                resolved[name] = await VariableProcessor.processRawRequest(value, undefined, document);
+            }
+        }
+
+        if (!resolved.tokenEndpoint) {
+            throw new Error('tokenEndpoint is required for OAuth 2.0 profiles.');
+        }
+
+        return resolved;
+    }
+
+    private static getStorageKey(environmentName: string, profileName: string): string {
+        return `oauth2:${environmentName}:${profileName}`;
+    }
+
+    private static async load(key: string): Promise<StoredOAuth2Token | undefined> {
+        const value = this.secrets ? await this.secrets.get(key) : this.memoryStorage.get(key);
+        try {
+            return value ? JSON.parse(value) : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private static async save(key: string, value: StoredOAuth2Token) {
+        if (this.secrets) {
+            await this.secrets.store(key, JSON.stringify(value));
+        } else {
+            this.memoryStorage.set(key, JSON.stringify(value));
+        }
+    }
+}
@@ -0,0 +1,181 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as Constants from '../../common/constants';
+import { RequestHost } from '../../models/requestHost';
+
+import got = require('got');
+
+/**
+ * The signing profile defined in the `$signing` object of an environment, and referenced by the `Signature`, `Hawk`
+ * and `HMAC` authorization schemes, string values can reference variables
+ */
+export interface SigningProfile {
+    keyId?: string;
+
+    /**
+     * Shared secret of the HMAC algorithms, or PEM encoded private key of the asymmetric ones
+     */
+    key?: string;
+
+    /**
+     * Path of the PEM file of the private key, used instead of the key
+     */
+    keyFile?: string;
+
+    /**
+     * Encoding of the shared secret, defaults to `utf8`
+     */
+    keyEncoding?: 'utf8' | 'base64' | 'hex';
+    algorithm?: string;
+
+    /**
+     * Covered components, the derived components like `@method` and `@target-uri` or the header names
+     */
+    components?: string[];
+
+    /**
+     * Label of the HTTP message signature, defaults to `sig1`
+     */
+    label?: string;
+
+    /**
+     * Seconds the HTTP message signature is valid for after created
+     */
+    expiresIn?: number;
+    nonce?: boolean;
+    tag?: string;
+
+    /**
+     * Header set with the HMAC signature, defaults to `Authorization`
+     */
+    header?: string;
+
+    /**
+     * Value of the HMAC signature header, where `{keyId}`, `{signature}`, `{timestamp}`, `{nonce}` and `{headers}`
+     * are replaced
+     */
+    format?: string;
+
+    /**
+     * Encoding of the HMAC signature, defaults to `base64`
+     */
+    encoding?: 'base64' | 'hex';
+    ext?: string;
+    app?: string;
+    dlg?: string;
+
+    /**
+     * Includes the hash of the body in the Hawk authorization, defaults to true
+     */
+    includePayloadHash?: boolean;
+}
+
+/**
+ * Values of the derived components which aren't part of the request itself, like the time the request is signed
+ */
+export type SigningContext = { timestamp: number, nonce: string };
+
+/**
+ * Finds the signing profile of the current environment and resolves the variables referenced in it, the key file is
+ * read into the key
+ */
+export async function resolveSigningProfile(host: RequestHost, scheme: string, profileName: string): Promise<SigningProfile> {
+    const profile = (await host.getEnvironmentProfiles(Constants.SigningProfilesName))[profileName];
+    if (!profile) {
+        throw new Error(`Signing profile "${profileName}" of ${scheme} authentication is not defined in the ${Constants.SigningProfilesName} of the current or $shared environment.`);
+    }
+
+    const resolved: SigningProfile = { ...profile };
+    for (const [name, value] of Object.entries(profile)) {
+        if (typeof value === 'string') {
+            resolved[name] = await host.resolveVariables(value);
+        } else if (Array.isArray(value)) {
+            resolved[name] = await Promise.all(value.map(v => host.resolveVariables(String(v))));
+        }
+    }
+
+    if (resolved.keyFile) {
+        const keyPath = await host.resolveFilePath(resolved.keyFile);
+        if (!keyPath) {
+            throw new Error(`Key file "${resolved.keyFile}" of signing profile "${profileName}" is not found.`);
+        }
+
+        resolved.key = await fs.readFile(keyPath, 'utf8');
+    }
+
+    if (!resolved.key) {
+        throw new Error(`Signing profile "${profileName}" requires the key or keyFile.`);
+    }
+
+    return resolved;
+}
+
+export function getSharedSecret({ key, keyEncoding }: SigningProfile): Buffer {
+    return Buffer.from(key!, keyEncoding ?? 'utf8');
+}
+
+export function createSigningContext(): SigningContext {
+    return { timestamp: Math.floor(Date.now() / 1000), nonce: crypto.randomBytes(16).toString('hex') };
+}
+
+/**
+ * Returns the value of the covered component of the final request, the derived components are named as in RFC 9421
+ */
+export function getComponentValue(options: got.NormalizedOptions, component: string, context: SigningContext): string {
+    const { url } = options;
+    switch (component.toLowerCase()) {
+        case '@method':
+            return options.method.toUpperCase();
+        case '@target-uri':
+            return url.toString();
+        case '@authority':
+            return url.host.toLowerCase();
+        case '@scheme':
+            return url.protocol.slice(0, -1).toLowerCase();
+        case '@request-target':
+            return `${url.pathname || '/'}${url.search}`;
+        case '@path':
+            return url.pathname || '/';
+        case '@query':
+            return url.search || '?';
+        case '@timestamp':
+            return String(context.timestamp);
+        case '@nonce':
+            return context.nonce;
+    }
+
+    if (component.startsWith('@')) {
+        throw new Error(`Derived component ${component} is not supported.`);
+    }
+
+    const value = options.headers[component.toLowerCase()];
+    if (value === undefined) {
+        throw new Error(`Covered header ${component} is not present in the request.`);
+    }
+
+    // the values of the header sent multiple times are combined, and the leading and trailing spaces are removed
+    return ([] as string[]).concat(value as string | string[]).map(v => String(v).trim()).join(', ');
+}
+
+/**
+ * Returns the body of the final request to be hashed, the bodies read from files are buffered before sent, so a
+ * stream reaching here can only be read once and is rejected instead
+ */
+export function getSignableBody(options: got.NormalizedOptions): string | Buffer {
+    const { body } = options;
+    if (body === undefined || typeof body === 'string' || Buffer.isBuffer(body)) {
+        return body ?? '';
+    }
+
+    throw new Error('Streamed request bodies can\'t be signed, since the body has to be hashed before it\'s sent.');
+}
+
+/**
+ * Adds the Content-Digest header of RFC 9530 for the request body, when it's covered by the signature but not
+ * written in the request
+ */
+export function addContentDigest(options: got.NormalizedOptions, components: string[]) {
+    if (components.some(c => c.toLowerCase() === 'content-digest') && options.headers['content-digest'] === undefined) {
+        options.headers['content-digest'] = `sha-256=:${crypto.createHash('sha256').update(getSignableBody(options)).digest('base64')}:`;
+    }
+}
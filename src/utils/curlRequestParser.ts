@@ -1,10 +1,11 @@
 import * as fs from 'fs-extra';
 import { RequestHeaders } from '../models/base';
-import { IRestClientSettings } from '../models/configurationSettings';
+import { HttpRequestSettings } from '../models/configurationSettings';
 import { HttpRequest } from '../models/httpRequest';
+import { RequestHost } from '../models/requestHost';
 import { RequestParser } from '../models/requestParser';
 import { base64, hasHeader } from './misc';
-import { parseRequestHeaders, resolveRequestBodyPath } from './requestParserUtil';
+import { parseRequestHeaders } from './requestParserUtil';
 
 const yargsParser = require('yargs-parser');
 
@@ -12,7 +13,10 @@ const DefaultContentType: string = 'application/x-www-form-urlencoded';
 
 export class CurlRequestParser implements RequestParser {
 
-    public constructor(private readonly requestRawText: string, private readonly settings: IRestClientSettings) {
+    public constructor(
+        private readonly requestRawText: string,
+        private readonly settings: HttpRequestSettings,
+        private readonly host: RequestHost) {
     }
 
     public async parseHttpRequest(name?: string): Promise<HttpRequest> {
@@ -21,7 +25,7 @@ export class CurlRequestParser implements RequestParser {
         requestText = requestText
             .replace(/(-X)(GET|POST|PUT|DELETE|PATCH|HEAD|OPTIONS|CONNECT|TRACE|LOCK|UNLOCK|PROPFIND|PROPPATCH|COPY|MOVE|MKCOL|MKCALENDAR|ACL|SEARCH)/, '$1 $2')
             .replace(/(-I|--head)(?=\s+)/, '-X HEAD');
-        const parsedArguments = yargsParser.default(requestText);
+        const parsedArguments = yargsParser(requestText, { boolean: ['http2', 'http2-prior-knowledge'] });
 
         // parse url
         let url = parsedArguments._[1];
@@ -60,7 +64,7 @@ export class CurlRequestParser implements RequestParser {
         }
 
         if (typeof body === 'string' && body[0] === '@') {
-            const fileAbsolutePath = await resolveRequestBodyPath(body.substring(1));
+            const fileAbsolutePath = await this.host.resolveFilePath(body.substring(1));
             if (fileAbsolutePath) {
                 body = fs.createReadStream(fileAbsolutePath);
             } else {
@@ -79,7 +83,11 @@ export class CurlRequestParser implements RequestParser {
             method = body ? "POST" : "GET";
         }
 
-        return new HttpRequest(method, url, headers, body, body, name);
+        const request = new HttpRequest(method, url, headers, body, body, name);
+        if (parsedArguments.http2 || parsedArguments['http2-prior-knowledge']) {
+            request.httpVersion = '2';
+        }
+        return request;
     }
 
     private static mergeIntoSingleLine(text: string): string {
@@ -0,0 +1,135 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { RequestHost } from '../models/requestHost';
+
+export type DataRow = { [column: string]: string };
+
+/**
+ * Parses the CSV or JSON data files used to send a request once per row
+ */
+export class DataFileParser {
+    /**
+     * Loads the data rows of the data file referenced in the `@data` metadata, the path can reference variables
+     */
+    public static async load(dataFile: string | undefined, host: RequestHost): Promise<DataRow[]> {
+        if (!dataFile) {
+            throw new Error('The path of the data file is missing in the @data metadata.');
+        }
+
+        const dataFilePath = await host.resolveVariables(dataFile);
+        const resolvedPath = await host.resolveFilePath(dataFilePath);
+        if (!resolvedPath) {
+            throw new Error(`Data file ${dataFilePath} doesn't exist.`);
+        }
+
+        const dataRows = await this.parseFile(resolvedPath);
+        if (dataRows.length === 0) {
+            throw new Error('No data row is found in the data file.');
+        }
+
+        return dataRows;
+    }
+
+    public static async parseFile(filePath: string): Promise<DataRow[]> {
+        const content = await fs.readFile(filePath, 'utf8');
+        return this.parse(content, path.extname(filePath));
+    }
+
+    public static parse(content: string, extension: string): DataRow[] {
+        // strip the byte order mark
+        content = content.replace(/^\uFEFF/, '');
+        switch (extension.toLowerCase()) {
+            case '.csv':
+                return this.parseCsv(content);
+            case '.json':
+                return this.parseJson(content);
+            default:
+                throw new Error(`Unsupported data file type ${extension}, only CSV and JSON files are supported.`);
+        }
+    }
+
+    /**
+     * The first row of the CSV content is the header, and fields can be quoted as described in RFC 4180
+     */
+    private static parseCsv(content: string): DataRow[] {
+        const records: string[][] = [];
+        let record: string[] = [];
+        let field = '';
+        let quoted = false;
+        for (let index = 0; index < content.length; index++) {
+            const char = content[index];
+            if (quoted) {
+                if (char !== '"') {
+                    field += char;
+                } else if (content[index + 1] === '"') {
+                    field += '"';
+                    index++;
+                } else {
+                    quoted = false;
+                }
+            } else if (char === '"' && field === '') {
+                quoted = true;
+            } else if (char === ',') {
+                record.push(field);
+                field = '';
+            } else if (char === '\r' || char === '\n') {
+                if (char === '\r' && content[index + 1] === '\n') {
+                    index++;
+                }
+                record.push(field);
+                records.push(record);
+                record = [];
+                field = '';
+            } else {
+                field += char;
+            }
+        }
+
+        if (quoted) {
+            throw new Error('Invalid CSV data file, a quoted field is not closed.');
+        }
+
+        if (field !== '' || record.length > 0) {
+            record.push(field);
+            records.push(record);
+        }
+
+        // ignore empty lines
+        const [header, ...rows] = records.filter(r => r.length > 1 || r[0] !== '');
+        if (!header) {
+            return [];
+        }
+
+        const columns = header.map(c => c.trim());
+        return rows.map(row => {
+            const dataRow: DataRow = {};
+            columns.forEach((column, index) => dataRow[column] = row[index] ?? '');
+            return dataRow;
+        });
+    }
+
+    /**
+     * The JSON content should be an array of objects, and the property values which are not strings
+     * are converted to their JSON representations
+     */
+    private static parseJson(content: string): DataRow[] {
+        let data: unknown;
+        try {
+            data = JSON.parse(content);
+        } catch (error) {
+            throw new Error(`Invalid JSON data file. ${error.message}`);
+        }
+
+        if (!Array.isArray(data) || data.some(item => typeof item !== 'object' || item === null || Array.isArray(item))) {
+            throw new Error('Invalid JSON data file, it should contain an array of objects.');
+        }
+
+        return data.map(item => {
+            const dataRow: DataRow = {};
+            for (const [key, value] of Object.entries(item)) {
+                dataRow[key] = typeof value === 'string' ? value : JSON.stringify(value);
+            }
+            return dataRow;
+        });
+    }
+}
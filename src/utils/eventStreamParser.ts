@@ -0,0 +1,108 @@
+export interface ServerSentEvent {
+    id?: string;
+
+    event?: string;
+
+    data: string;
+
+    retry?: number;
+}
+
+/**
+ * Incrementally parses the `text/event-stream` content as specified in
+ * https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation
+ */
+export class EventStreamParser {
+    private buffer = '';
+
+    private dataLines: string[] = [];
+
+    private event?: string;
+
+    private id?: string;
+
+    private retry?: number;
+
+    /**
+     * Parses the received chunk and returns the events completed by it,
+     * an incomplete line is kept until the following chunks arrive
+     */
+    public push(chunk: string): ServerSentEvent[] {
+        this.buffer += chunk;
+        const events: ServerSentEvent[] = [];
+        let match: RegExpExecArray | null;
+        while (match = /\r\n|\r|\n/.exec(this.buffer)) {
+            // a trailing CR may be the first half of CRLF, wait for the next chunk
+            if (match[0] === '\r' && match.index === this.buffer.length - 1) {
+                break;
+            }
+
+            const line = this.buffer.substring(0, match.index);
+            this.buffer = this.buffer.substring(match.index + match[0].length);
+            const event = this.processLine(line);
+            if (event) {
+                events.push(event);
+            }
+        }
+
+        return events;
+    }
+
+    /**
+     * Returns the pending event when the stream ends without a blank line after it
+     */
+    public flush(): ServerSentEvent[] {
+        const events = this.push('\n');
+        const event = this.processLine('');
+        return event ? [...events, event] : events;
+    }
+
+    private processLine(line: string): ServerSentEvent | undefined {
+        if (line === '') {
+            return this.dispatch();
+        }
+
+        if (line.startsWith(':')) {
+            // comment line
+            return undefined;
+        }
+
+        const index = line.indexOf(':');
+        const field = index === -1 ? line : line.substring(0, index);
+        const value = index === -1 ? '' : line.substring(index + 1).replace(/^ /, '');
+        switch (field) {
+            case 'data':
+                this.dataLines.push(value);
+                break;
+            case 'event':
+                this.event = value;
+                break;
+            case 'id':
+                if (!value.includes('\0')) {
+                    this.id = value;
+                }
+                break;
+            case 'retry':
+                if (/^\d+$/.test(value)) {
+                    this.retry = Number(value);
+                }
+                break;
+        }
+
+        return undefined;
+    }
+
+    private dispatch(): ServerSentEvent | undefined {
+        // the event id is kept for the following events as the last event id
+        const { id, event, retry } = this;
+        this.event = undefined;
+        this.retry = undefined;
+        if (this.dataLines.length === 0) {
+            return undefined;
+        }
+
+        const data = this.dataLines.join('\n');
+        this.dataLines = [];
+        return { id, event, data, retry };
+    }
+}
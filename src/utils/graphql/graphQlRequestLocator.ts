@@ -0,0 +1,113 @@
+import * as Constants from '../../common/constants';
+import { RequestTextSelector } from '../requestTextSelector';
+
+export interface GraphQlRequestBlock {
+    /**
+     * The request line and header lines of the request, comment lines are excluded
+     */
+    requestLines: string[];
+
+    /**
+     * Line number of the first query line in the document
+     */
+    queryStartLine: number;
+
+    /**
+     * Line number of the last query line in the document
+     */
+    queryEndLine: number;
+
+    /**
+     * The query text, in which comment lines are blanked and variable references are replaced with
+     * the null values of the same length, so that positions in the query map to the document directly
+     */
+    query: string;
+
+    /**
+     * Ranges of the variable references in the query, in the format of [line, start character, end character]
+     * relative to the query
+     */
+    variableReferences: [number, number, number][];
+}
+
+/**
+ * Finds the query in the body of GraphQL requests, which are the requests with `X-Request-Type: GraphQL` header
+ */
+export class GraphQlRequestLocator {
+    private static readonly requestTypeHeaderRegex = /^\s*X-Request-Type\s*:\s*GraphQL\s*$/i;
+
+    private static readonly variableReferenceRegex = /\{{2}(.+?)\}{2}/;
+
+    public static find(lines: string[]): GraphQlRequestBlock[] {
+        const blocks: GraphQlRequestBlock[] = [];
+        for (const [start, end] of RequestTextSelector.getRequestRanges(lines)) {
+            const block = this.parse(lines, start, end);
+            if (block) {
+                blocks.push(block);
+            }
+        }
+
+        return blocks;
+    }
+
+    /**
+     * Returns the GraphQL request whose query contains the given line
+     */
+    public static findAt(lines: string[], line: number): GraphQlRequestBlock | undefined {
+        return this.find(lines).find(b => b.queryStartLine <= line && line <= b.queryEndLine);
+    }
+
+    private static parse(lines: string[], start: number, end: number): GraphQlRequestBlock | undefined {
+        let index = start;
+
+        // skip the pre-request script block, and the metadata before the request line
+        const scriptStart = lines[index].match(Constants.PreRequestScriptStartRegex);
+        if (scriptStart) {
+            let content = scriptStart[1];
+            while (!Constants.PreRequestScriptEndRegex.test(content) && index < end) {
+                content = lines[++index];
+            }
+            index++;
+        }
+        while (index <= end && (RequestTextSelector.isEmptyLine(lines[index]) || RequestTextSelector.isCommentLine(lines[index]))) {
+            index++;
+        }
+
+        // the request line and headers end with an empty line
+        const requestLines: string[] = [];
+        for (; index <= end && !RequestTextSelector.isEmptyLine(lines[index]); index++) {
+            if (!RequestTextSelector.isCommentLine(lines[index])) {
+                requestLines.push(lines[index]);
+            }
+        }
+
+        if (!requestLines.some(l => this.requestTypeHeaderRegex.test(l))) {
+            return undefined;
+        }
+
+        // the query ends with an empty line, which is followed by the GraphQL variables
+        const queryStartLine = index + 1;
+        const queryLines: string[] = [];
+        for (index = queryStartLine; index <= end; index++) {
+            const line = lines[index];
+            if (RequestTextSelector.isEmptyLine(line) || Constants.ResponseHandlerStartRegex.test(line)) {
+                break;
+            }
+
+            queryLines.push(RequestTextSelector.isCommentLine(line) ? '' : line);
+        }
+
+        // the query may also be loaded from a file
+        if (queryLines.length === 0 || queryLines[0].trim().startsWith('<')) {
+            return undefined;
+        }
+
+        const variableReferences: [number, number, number][] = [];
+        const query = queryLines.map((line, lineIndex) => line.replace(new RegExp(this.variableReferenceRegex, 'g'), (reference: string, _: string, offset: number) => {
+            variableReferences.push([lineIndex, offset, offset + reference.length]);
+            return 'null'.padEnd(reference.length);
+        })).join('\n');
+
+        return { requestLines, queryStartLine, queryEndLine: queryStartLine + queryLines.length - 1, query, variableReferences };
+    }
+}
@@ -0,0 +1,108 @@
+import { buildClientSchema, getIntrospectionQuery, GraphQLSchema, IntrospectionQuery } from 'graphql';
+import { EOL } from 'os';
+import { Event, EventEmitter, TextDocument, window } from 'vscode';
+import * as Constants from '../../common/constants';
+import { RequestSettings, RestClientSettings } from '../../models/configurationSettings';
+import { HttpClient } from '../httpClient';
+import { HttpRequestParser } from '../httpRequestParser';
+import { VariableProcessor } from '../variableProcessor';
+import { WorkspaceRequestHost } from '../workspaceRequestHost';
+import { GraphQlRequestBlock, GraphQlRequestLocator } from './graphQlRequestLocator';
+
+/**
+ * Fetches the schemas of GraphQL endpoints through the introspection query, and caches them by endpoint url
+ */
+export class GraphQlSchemaProvider {
+    private static readonly schemas = new Map<string, Promise<GraphQLSchema>>();
+
+    private static readonly _onDidChangeSchema = new EventEmitter<string>();
+
+    private static httpClient?: HttpClient;
+
+    public static get onDidChangeSchema(): Event<string> {
+        return this._onDidChangeSchema.event;
+    }
+
+    /**
+     * Returns the schema of the endpoint of the GraphQL request only if it has been fetched successfully
+     */
+    public static async getCachedSchema(block: GraphQlRequestBlock, document: TextDocument): Promise<GraphQLSchema | undefined> {
+        try {
+            return await this.schemas.get(await this.getEndpoint(block, document));
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Clears the cached schemas, and fetches the schema of the GraphQL request under the cursor again
+     */
+    public static async refresh() {
+        this.schemas.clear();
+        const editor = window.activeTextEditor;
+        if (!editor) {
+            return;
+        }
+
+        const block = GraphQlRequestLocator.findAt(editor.document.getText().split(Constants.LineSplitterRegex), editor.selection.active.line);
+        if (block) {
+            await this.getSchema(block, editor.document).catch(() => undefined);
+        }
+    }
+
+    /**
+     * Returns the schema of the endpoint of the GraphQL request, and fetches it if it's not cached yet.
+     * A failed fetch is also cached, so that the endpoint isn't queried again until the cache is cleared, and the failure
+     * is only reported once
+     */
+    private static async getSchema(block: GraphQlRequestBlock, document: TextDocument): Promise<GraphQLSchema> {
+        const url = await this.getEndpoint(block, document);
+        let schema = this.schemas.get(url);
+        if (!schema) {
+            schema = this.fetch(url, block, document);
+            this.schemas.set(url, schema);
+            schema.then(() => this._onDidChangeSchema.fire(url), error => window.showWarningMessage(error.message));
+        }
+
+        return schema;
+    }
+
+    private static async getEndpoint(block: GraphQlRequestBlock, document: TextDocument): Promise<string> {
+        // only the request line is resolved, since resolving the headers may require signing in
+        const requestLine = await VariableProcessor.processRawRequest(block.requestLines[0], undefined, document);
+        const { url } = await this.createParser(requestLine, document).parseHttpRequest();
+        return url;
+    }
+
+    private static async fetch(url: string, block: GraphQlRequestBlock, document: TextDocument): Promise<GraphQLSchema> {
+        // send the introspection query with the same request line and headers, so that the authentication headers are also applied
+        const requestText = await VariableProcessor.processRawRequest(block.requestLines.join(EOL), undefined, document);
+        // empty lines are removed from the query, since the GraphQL variables start after the first empty line of the body
+        const query = getIntrospectionQuery().split('\n').filter(l => l.trim()).join(EOL);
+        const httpRequest = await this.createParser(`${requestText}${EOL}${EOL}${query}`, document).parseHttpRequest();
+
+        this.httpClient = this.httpClient ?? new HttpClient();
+        const response = await this.httpClient.send(httpRequest, new RestClientSettings(new RequestSettings(new Map())), new WorkspaceRequestHost(document));
+        if (response.statusCode >= 400) {
+            throw new Error(`Failed to fetch the GraphQL schema from ${url}, the server responded with ${response.statusCode} ${response.statusMessage}.`);
+        }
+
+        let result: { data?: IntrospectionQuery, errors?: { message: string }[] };
+        try {
+            result = JSON.parse(response.body);
+        } catch {
+            throw new Error(`Failed to fetch the GraphQL schema from ${url}, the response is not a valid JSON.`);
+        }
+
+        if (!result.data?.__schema) {
+            const errors = result.errors?.map(e => e.message).join(' ') ?? '';
+            throw new Error(`Failed to fetch the GraphQL schema from ${url}. ${errors}`.trim());
+        }
+
+        return buildClientSchema(result.data);
+    }
+
+    private static createParser(requestText: string, document: TextDocument): HttpRequestParser {
+        return new HttpRequestParser(requestText, new RestClientSettings(new RequestSettings(new Map())), new WorkspaceRequestHost(document));
+    }
+}
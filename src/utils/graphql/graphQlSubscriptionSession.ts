@@ -0,0 +1,156 @@
+import { EventEmitter } from 'vscode';
+import { HttpRequest } from '../../models/httpRequest';
+import { StreamingMessage, StreamingMessageType, StreamingSession } from '../../models/streamingSession';
+import { flattenHeaders, getHeader, removeHeader } from '../misc';
+import { GraphQlPayload } from './graphQlUtility';
+
+import WebSocket = require('ws');
+
+/**
+ * Runs the subscription operation of a GraphQL request over WebSocket, both the graphql-transport-ws protocol of graphql-ws
+ * and the legacy graphql-ws protocol of subscriptions-transport-ws are supported, the one selected by the server is used
+ */
+export class GraphQlSubscriptionSession implements StreamingSession {
+    private static readonly transportWsProtocol = 'graphql-transport-ws';
+
+    private static readonly legacyProtocol = 'graphql-ws';
+
+    private static readonly operationId = '1';
+
+    private readonly _onDidAddMessage = new EventEmitter<StreamingMessage>();
+
+    private readonly _onDidClose = new EventEmitter<void>();
+
+    private socket?: WebSocket;
+
+    public readonly messages: StreamingMessage[] = [];
+
+    public get title(): string {
+        return this.request.name ?? this.request.url;
+    }
+
+    public get isOpen(): boolean {
+        return this.socket?.readyState === WebSocket.OPEN;
+    }
+
+    public get onDidAddMessage() {
+        return this._onDidAddMessage.event;
+    }
+
+    public get onDidClose() {
+        return this._onDidClose.event;
+    }
+
+    private get isLegacyProtocol(): boolean {
+        return this.socket?.protocol === GraphQlSubscriptionSession.legacyProtocol;
+    }
+
+    public constructor(
+        private readonly request: HttpRequest,
+        private readonly payload: GraphQlPayload) {
+    }
+
+    /**
+     * Opens the connection and starts the subscription, rejects if the connection isn't acknowledged by the server
+     */
+    public async connect(timeout?: number): Promise<void> {
+        const headers = { ...this.request.headers };
+        const protocols = getHeader(headers, 'Sec-WebSocket-Protocol')?.toString().split(',').map(p => p.trim())
+            ?? [GraphQlSubscriptionSession.transportWsProtocol, GraphQlSubscriptionSession.legacyProtocol];
+        removeHeader(headers, 'Sec-WebSocket-Protocol');
+        removeHeader(headers, 'Content-Type');
+
+        // subscriptions are served from the same endpoint with WebSocket scheme
+        const url = this.request.url.replace(/^http(s?):/i, 'ws$1:');
+        this.addMessage(StreamingMessageType.Info, `Connecting to ${url}`);
+        await new Promise<void>((resolve, reject) => {
+            const socket = this.socket = new WebSocket(url, protocols, {
+                headers: flattenHeaders(headers),
+                handshakeTimeout: timeout || undefined,
+                rejectUnauthorized: false
+            });
+
+            socket.on('open', () => {
+                this.addMessage(StreamingMessageType.Info, `Connected${socket.protocol ? ` with protocol ${socket.protocol}` : ''}`);
+                this.sendMessage({ type: 'connection_init' });
+            });
+
+            socket.on('error', (error: Error) => {
+                this.addMessage(StreamingMessageType.Error, error.message);
+                reject(error);
+            });
+
+            socket.on('message', (data: string | Buffer) => {
+                let message: { type: string, id?: string, payload?: unknown };
+                try {
+                    message = JSON.parse(data.toString());
+                } catch {
+                    this.addMessage(StreamingMessageType.Error, `Invalid message received: ${data.toString()}`);
+                    return;
+                }
+
+                switch (message.type) {
+                    case 'connection_ack':
+                        const type = this.isLegacyProtocol ? 'start' : 'subscribe';
+                        this.sendMessage({ id: GraphQlSubscriptionSession.operationId, type, payload: this.payload });
+                        this.addMessage(StreamingMessageType.Sent, JSON.stringify(this.payload, null, 2), type);
+                        resolve();
+                        break;
+                    case 'ping':
+                        this.sendMessage({ type: 'pong' });
+                        break;
+                    case 'next':
+                    case 'data':
+                        this.addMessage(StreamingMessageType.Received, JSON.stringify(message.payload, null, 2), message.type);
+                        break;
+                    case 'error':
+                    case 'connection_error':
+                        this.addMessage(StreamingMessageType.Error, JSON.stringify(message.payload, null, 2), message.type);
+                        reject(new Error('GraphQL subscription is rejected by the server.'));
+                        this.close();
+                        break;
+                    case 'complete':
+                        this.addMessage(StreamingMessageType.Info, 'Subscription is completed by the server');
+                        socket.close(1000);
+                        break;
+                    default:
+                        // the keep alive messages of the legacy protocol and the pongs are ignored
+                        break;
+                }
+            });
+
+            socket.on('close', (code: number, reason: string) => {
+                this.addMessage(StreamingMessageType.Info, `Disconnected with code ${code}${reason ? `: ${reason}` : ''}`);
+                this._onDidClose.fire();
+                reject(new Error('Connection is closed before the subscription is started.'));
+            });
+        });
+    }
+
+    /**
+     * Stops the subscription and closes the connection
+     */
+    public close() {
+        if (this.socket?.readyState === WebSocket.CONNECTING) {
+            this.socket.terminate();
+        } else if (this.isOpen) {
+            if (this.isLegacyProtocol) {
+                this.sendMessage({ id: GraphQlSubscriptionSession.operationId, type: 'stop' });
+                this.sendMessage({ type: 'connection_terminate' });
+            } else {
+                this.sendMessage({ id: GraphQlSubscriptionSession.operationId, type: 'complete' });
+            }
+            this.socket!.close(1000);
+        }
+    }
+
+    private sendMessage(message: object) {
+        this.socket!.send(JSON.stringify(message));
+    }
+
+    private addMessage(type: StreamingMessageType, data: string, label?: string) {
+        const message = { type, data, label, timestamp: Date.now() };
+        this.messages.push(message);
+        this._onDidAddMessage.fire(message);
+    }
+}
@@ -0,0 +1,40 @@
+import { getOperationAST, parse } from 'graphql';
+import { HttpRequest } from '../../models/httpRequest';
+
+export interface GraphQlPayload {
+    query: string;
+    operationName?: string;
+    variables?: { [key: string]: unknown };
+}
+
+/**
+ * Returns the payload built by the GraphQL request parser, undefined if the request body isn't a GraphQL payload
+ */
+export function getGraphQlPayload(request: HttpRequest): GraphQlPayload | undefined {
+    if (typeof request.body !== 'string') {
+        return undefined;
+    }
+
+    try {
+        const payload = JSON.parse(request.body);
+        return typeof payload?.query === 'string' ? payload : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Checks whether the operation to execute in the GraphQL request is a subscription
+ */
+export function isGraphQlSubscription(request: HttpRequest): boolean {
+    const payload = getGraphQlPayload(request);
+    if (!payload) {
+        return false;
+    }
+
+    try {
+        return getOperationAST(parse(payload.query), payload.operationName)?.operation === 'subscription';
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,224 @@
+import { Client, ClientReadableStream, ClientUnaryCall, credentials, Metadata, ServiceError, status, StatusObject } from '@grpc/grpc-js';
+import { MethodDefinition } from '@grpc/proto-loader';
+import * as Constants from '../../common/constants';
+import { RequestHeaders, ResponseHeaders } from '../../models/base';
+import { HttpRequestSettings } from '../../models/configurationSettings';
+import { HttpRequest } from '../../models/httpRequest';
+import { HttpResponse } from '../../models/httpResponse';
+import { RequestHost } from '../../models/requestHost';
+import { convertStreamToString } from '../streamUtility';
+import { GrpcServiceRegistry } from './grpcServiceRegistry';
+
+/**
+ * Sends the `GRPC [grpc|grpcs://]host:port/package.Service/Method` requests with JSON bodies, the request headers
+ * are sent as metadata. The methods are looked up in the proto files first, and then through the server reflection
+ */
+export class GrpcClient {
+    private static readonly targetRegex = /^(?:(grpcs?):\/\/)?([^/\s]+)\/([\w.]+)\/(\w+)$/i;
+
+    private static readonly reservedHeaders = ['content-type', 'content-length', 'te', 'host', 'connection', 'user-agent'];
+
+    // https://github.com/grpc-ecosystem/grpc-gateway/blob/main/runtime/errors.go
+    private static readonly httpStatusCodes: { [code: number]: number } = {
+        [status.OK]: 200,
+        [status.CANCELLED]: 499,
+        [status.UNKNOWN]: 500,
+        [status.INVALID_ARGUMENT]: 400,
+        [status.DEADLINE_EXCEEDED]: 504,
+        [status.NOT_FOUND]: 404,
+        [status.ALREADY_EXISTS]: 409,
+        [status.PERMISSION_DENIED]: 403,
+        [status.RESOURCE_EXHAUSTED]: 429,
+        [status.FAILED_PRECONDITION]: 400,
+        [status.ABORTED]: 409,
+        [status.OUT_OF_RANGE]: 400,
+        [status.UNIMPLEMENTED]: 501,
+        [status.INTERNAL]: 500,
+        [status.UNAVAILABLE]: 503,
+        [status.DATA_LOSS]: 500,
+        [status.UNAUTHENTICATED]: 401,
+    };
+
+    public static parseTarget(target: string): { useTls: boolean, address: string, serviceName: string, methodName: string } | undefined {
+        const matched = target.match(this.targetRegex);
+        if (!matched) {
+            return undefined;
+        }
+
+        const [, scheme, address, serviceName, methodName] = matched;
+        return { useTls: scheme?.toLowerCase() === 'grpcs', address, serviceName, methodName };
+    }
+
+    public async send(httpRequest: HttpRequest, settings: HttpRequestSettings, host: RequestHost): Promise<HttpResponse> {
+        const target = GrpcClient.parseTarget(httpRequest.url);
+        if (!target) {
+            throw new Error(`Invalid gRPC request target ${httpRequest.url}, it should follow format "[grpc|grpcs://]host:port/package.Service/Method".`);
+        }
+
+        const { useTls, address, serviceName, methodName } = target;
+        let body = httpRequest.body;
+        if (body && typeof body !== 'string') {
+            body = await convertStreamToString(body);
+        }
+
+        let message: object;
+        try {
+            message = JSON.parse(body?.trim() || '{}');
+        } catch (error) {
+            throw new Error(`Invalid JSON body of gRPC request. ${error.message}`);
+        }
+
+        const metadata = this.createMetadata(httpRequest.headers);
+        const userAgent = Object.entries(httpRequest.headers).find(([name]) => name.toLowerCase() === 'user-agent')?.[1];
+        const client = new Client(
+            address,
+            useTls ? credentials.createSsl(null, null, null, { rejectUnauthorized: false }) : credentials.createInsecure(),
+            userAgent ? { 'grpc.primary_user_agent': userAgent.toString() } : {});
+        try {
+            const method = await this.findMethod(client, address, metadata, serviceName, methodName, host);
+            const deadline = settings.timeoutInMilliseconds > 0 ? Date.now() + settings.timeoutInMilliseconds : Infinity;
+            return await this.call(client, method, message, metadata, deadline, httpRequest);
+        } finally {
+            client.close();
+        }
+    }
+
+    private async findMethod(client: Client, address: string, metadata: Metadata, serviceName: string, methodName: string, host: RequestHost): Promise<MethodDefinition<object, object>> {
+        let service = (await GrpcServiceRegistry.loadProtoFiles(await host.findProtoFiles())).get(serviceName);
+        if (!service) {
+            try {
+                service = await GrpcServiceRegistry.reflect(address, client, metadata, serviceName);
+            } catch (error) {
+                throw new Error(`Service ${serviceName} is not found in the proto files. ${error.message}`);
+            }
+        }
+
+        if (!service) {
+            throw new Error(`Service ${serviceName} is not found in the proto files or through the server reflection.`);
+        }
+
+        const method = service[methodName];
+        if (!method) {
+            throw new Error(`Method ${methodName} is not found in service ${serviceName}.`);
+        }
+
+        if (method.requestStream) {
+            throw new Error(`Method ${methodName} is a client streaming method, only unary and server streaming methods are supported.`);
+        }
+
+        return method;
+    }
+
+    private call(
+        client: Client,
+        method: MethodDefinition<object, object>,
+        message: object,
+        metadata: Metadata,
+        deadline: number,
+        httpRequest: HttpRequest): Promise<HttpResponse> {
+        const startTime = Date.now();
+        return new Promise((resolve, reject) => {
+            const messages: object[] = [];
+            let responseMetadata = new Metadata();
+            let callStatus: StatusObject | undefined;
+
+            // the messages of server streaming calls may still be emitted after the status is received
+            let pending = method.responseStream ? 2 : 1;
+            const complete = () => {
+                if (--pending > 0 || !callStatus) {
+                    return;
+                }
+
+                if (httpRequest.isCancelled) {
+                    reject(new Error('Request is cancelled.'));
+                } else {
+                    resolve(this.createResponse(httpRequest, method, messages, responseMetadata, callStatus, Date.now() - startTime));
+                }
+            };
+
+            let call: ClientUnaryCall | ClientReadableStream<object>;
+            if (method.responseStream) {
+                const stream = call = client.makeServerStreamRequest(method.path, method.requestSerialize, method.responseDeserialize, message, metadata, { deadline });
+                stream.on('data', (response: object) => messages.push(response));
+                stream.on('end', complete);
+                stream.on('error', (error: ServiceError) => {
+                    // the error is also reported by the status
+                    if (pending > 1 && error) {
+                        complete();
+                    }
+                });
+            } else {
+                call = client.makeUnaryRequest(method.path, method.requestSerialize, method.responseDeserialize, message, metadata, { deadline }, (error, response) => {
+                    if (!error && response) {
+                        messages.push(response);
+                    }
+                });
+            }
+
+            call.on('metadata', (value: Metadata) => responseMetadata = value);
+            call.on('status', (value: StatusObject) => {
+                callStatus = value;
+                complete();
+            });
+            httpRequest.setUnderlyingRequest(call);
+        });
+    }
+
+    private createMetadata(headers: RequestHeaders): Metadata {
+        const metadata = new Metadata();
+        for (const [name, value] of Object.entries(headers)) {
+            const key = name.toLowerCase();
+            if (value === undefined || GrpcClient.reservedHeaders.includes(key)) {
+                continue;
+            }
+
+            for (const item of Array.isArray(value) ? value : [value]) {
+                // the values of binary metadata are provided in base64
+                if (key.endsWith('-bin')) {
+                    metadata.add(key, Buffer.from(item.toString(), 'base64'));
+                } else {
+                    metadata.add(key, item.toString());
+                }
+            }
+        }
+
+        return metadata;
+    }
+
+    private createResponse(
+        httpRequest: HttpRequest,
+        method: MethodDefinition<object, object>,
+        messages: object[],
+        responseMetadata: Metadata,
+        { code, details, metadata: trailers }: StatusObject,
+        duration: number): HttpResponse {
+        const headers: ResponseHeaders = {};
+        for (const [name, value] of Object.entries({ ...responseMetadata.getMap(), ...trailers.getMap() })) {
+            headers[name] = Buffer.isBuffer(value) ? value.toString('base64') : value;
+        }
+        // the messages are converted to JSON
+        headers['content-type'] = 'application/grpc+json';
+        headers['grpc-status'] = code.toString();
+        if (details) {
+            headers['grpc-message'] = details;
+        }
+
+        const content = method.responseStream
+            ? messages
+            : messages[0] ?? { code, message: details };
+        const body = JSON.stringify(content, null, 2);
+        const bodyBuffer = Buffer.from(body);
+        const requestBody = httpRequest.body === undefined || typeof httpRequest.body === 'string' ? httpRequest.body : httpRequest.rawBody;
+        return new HttpResponse(
+            GrpcClient.httpStatusCodes[code] ?? 500,
+            status[code] ?? 'UNKNOWN',
+            '2',
+            headers,
+            body,
+            bodyBuffer.length,
+            0,
+            bodyBuffer,
+            { total: duration },
+            new HttpRequest(Constants.GrpcRequestMethod, httpRequest.url, httpRequest.headers, requestBody, httpRequest.rawBody, httpRequest.name));
+    }
+}
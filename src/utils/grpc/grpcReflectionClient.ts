@@ -0,0 +1,153 @@
+import { Client, Metadata, status } from '@grpc/grpc-js';
+import { fromJSON, MethodDefinition, Options } from '@grpc/proto-loader';
+import * as descriptor from 'protobufjs/ext/descriptor';
+
+type ReflectionRequest = {
+    file_by_filename?: string;
+    file_containing_symbol?: string;
+    list_services?: string;
+};
+
+type ReflectionResponse = {
+    file_descriptor_response?: { file_descriptor_proto: Buffer[] };
+    list_services_response?: { service: { name: string }[] };
+    error_response?: { error_code: number, error_message: string };
+};
+
+/**
+ * Queries the services and their file descriptors through the gRPC server reflection protocol,
+ * the v1 protocol is tried first, and then the v1alpha one for older servers
+ */
+export class GrpcReflectionClient {
+    private static readonly versions = ['v1', 'v1alpha'];
+
+    private static readonly loaderOptions: Options = { keepCase: true, defaults: true, oneofs: true };
+
+    public constructor(private readonly client: Client, private readonly metadata: Metadata) {
+    }
+
+    public async listServices(): Promise<string[]> {
+        const [response] = await this.request([{ list_services: '' }]);
+        return response.list_services_response?.service.map(s => s.name) ?? [];
+    }
+
+    /**
+     * Returns the serialized FileDescriptorSet of the file defining the symbol and all the files it depends on
+     */
+    public async getFileDescriptorSet(symbol: string): Promise<Buffer> {
+        const files = new Map<string, descriptor.IFileDescriptorProto>();
+        let requests: ReflectionRequest[] = [{ file_containing_symbol: symbol }];
+        while (requests.length > 0) {
+            for (const response of await this.request(requests)) {
+                for (const buffer of response.file_descriptor_response?.file_descriptor_proto ?? []) {
+                    const file = descriptor.FileDescriptorProto.decode(buffer) as descriptor.IFileDescriptorProto;
+                    files.set(file.name!, file);
+                }
+            }
+
+            // request the dependencies which are not returned along with the file
+            const missing = new Set<string>();
+            for (const file of files.values()) {
+                (file.dependency ?? []).filter(d => !files.has(d)).forEach(d => missing.add(d));
+            }
+            requests = [...missing].map(d => ({ file_by_filename: d }));
+        }
+
+        return Buffer.from(descriptor.FileDescriptorSet.encode({ file: [...files.values()] }).finish());
+    }
+
+    private async request(requests: ReflectionRequest[]): Promise<ReflectionResponse[]> {
+        for (const [index, version] of GrpcReflectionClient.versions.entries()) {
+            try {
+                return await this.requestWithVersion(version, requests);
+            } catch (error) {
+                if (error.code !== status.UNIMPLEMENTED || index === GrpcReflectionClient.versions.length - 1) {
+                    throw new Error(`Failed to query the server reflection. ${error.details ?? error.message}`);
+                }
+            }
+        }
+
+        return [];
+    }
+
+    private requestWithVersion(version: string, requests: ReflectionRequest[]): Promise<ReflectionResponse[]> {
+        const method = this.getMethodDefinition(version);
+        return new Promise((resolve, reject) => {
+            const responses: ReflectionResponse[] = [];
+            const call = this.client.makeBidiStreamRequest(method.path, method.requestSerialize, method.responseDeserialize, this.metadata);
+            call.on('data', (response: ReflectionResponse) => {
+                if (response.error_response) {
+                    call.cancel();
+                    reject(new Error(response.error_response.error_message));
+                    return;
+                }
+
+                responses.push(response);
+                if (responses.length === requests.length) {
+                    call.end();
+                    resolve(responses);
+                }
+            });
+            call.on('error', reject);
+            requests.forEach(r => call.write(r));
+        });
+    }
+
+    private getMethodDefinition(version: string): MethodDefinition<ReflectionRequest, ReflectionResponse> {
+        const packageName = `grpc.reflection.${version}`;
+        const packageDefinition = fromJSON({
+            nested: {
+                [packageName]: {
+                    nested: {
+                        ServerReflectionRequest: {
+                            oneofs: { message_request: { oneof: ['file_by_filename', 'file_containing_symbol', 'list_services'] } },
+                            fields: {
+                                host: { type: 'string', id: 1 },
+                                file_by_filename: { type: 'string', id: 3 },
+                                file_containing_symbol: { type: 'string', id: 4 },
+                                list_services: { type: 'string', id: 7 }
+                            }
+                        },
+                        ServerReflectionResponse: {
+                            oneofs: { message_response: { oneof: ['file_descriptor_response', 'list_services_response', 'error_response'] } },
+                            fields: {
+                                valid_host: { type: 'string', id: 1 },
+                                file_descriptor_response: { type: 'FileDescriptorResponse', id: 4 },
+                                list_services_response: { type: 'ListServiceResponse', id: 6 },
+                                error_response: { type: 'ErrorResponse', id: 7 }
+                            }
+                        },
+                        FileDescriptorResponse: {
+                            fields: { file_descriptor_proto: { rule: 'repeated', type: 'bytes', id: 1 } }
+                        },
+                        ListServiceResponse: {
+                            fields: { service: { rule: 'repeated', type: 'ServiceResponse', id: 1 } }
+                        },
+                        ServiceResponse: {
+                            fields: { name: { type: 'string', id: 1 } }
+                        },
+                        ErrorResponse: {
+                            fields: {
+                                error_code: { type: 'int32', id: 1 },
+                                error_message: { type: 'string', id: 2 }
+                            }
+                        },
+                        ServerReflection: {
+                            methods: {
+                                ServerReflectionInfo: {
+                                    requestType: 'ServerReflectionRequest',
+                                    requestStream: true,
+                                    responseType: 'ServerReflectionResponse',
+                                    responseStream: true,
+                                    comment: ''
+                                }
+                            }
+                        }
+                    }
+                }
+            }
+        }, GrpcReflectionClient.loaderOptions);
+        const service = packageDefinition[`${packageName}.ServerReflection`] as { [method: string]: MethodDefinition<object, object> };
+        return service.ServerReflectionInfo as MethodDefinition<ReflectionRequest, ReflectionResponse>;
+    }
+}
@@ -0,0 +1,92 @@
+import { Client, Metadata } from '@grpc/grpc-js';
+import { load, loadFileDescriptorSetFromBuffer, Options, PackageDefinition, ServiceDefinition } from '@grpc/proto-loader';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { GrpcReflectionClient } from './grpcReflectionClient';
+
+export type GrpcServices = Map<string, ServiceDefinition>;
+
+/**
+ * Discovers the gRPC services from the proto files or the server reflection, and caches them by file and by server address
+ */
+export class GrpcServiceRegistry {
+    private static readonly loaderOptions: Options = { keepCase: true, longs: String, enums: String, defaults: true, oneofs: true };
+
+    private static readonly protoFileServices = new Map<string, { mtime: number, services: GrpcServices }>();
+
+    private static readonly reflectedServices = new Map<string, GrpcServices>();
+
+    /**
+     * Loads the services defined in the proto files, a file is only reloaded after it's changed, and the files
+     * which fail to load are skipped. Imports are resolved against the folders containing the proto files and their ancestors
+     */
+    public static async loadProtoFiles(files: string[]): Promise<GrpcServices> {
+        const includeDirs = new Set<string>();
+        for (const file of files) {
+            let dir = path.dirname(file);
+            while (!includeDirs.has(dir)) {
+                includeDirs.add(dir);
+                dir = path.dirname(dir);
+            }
+        }
+
+        const services: GrpcServices = new Map();
+        for (const file of files) {
+            try {
+                const { mtimeMs } = await fs.stat(file);
+                let cached = this.protoFileServices.get(file);
+                if (cached?.mtime !== mtimeMs) {
+                    const packageDefinition = await load(file, { ...this.loaderOptions, includeDirs: [...includeDirs] });
+                    cached = { mtime: mtimeMs, services: this.getServices(packageDefinition) };
+                    this.protoFileServices.set(file, cached);
+                }
+
+                cached.services.forEach((service, name) => services.set(name, service));
+            } catch {
+                // ignore the proto files which can't be parsed, like the ones for other tools
+            }
+        }
+
+        return services;
+    }
+
+    /**
+     * Finds the service through the server reflection, the result is cached by the server address
+     */
+    public static async reflect(address: string, client: Client, metadata: Metadata, serviceName: string): Promise<ServiceDefinition | undefined> {
+        const cached = this.reflectedServices.get(address)?.get(serviceName);
+        if (cached) {
+            return cached;
+        }
+
+        const descriptorSet = await new GrpcReflectionClient(client, metadata).getFileDescriptorSet(serviceName);
+        const services = this.reflectedServices.get(address) ?? new Map();
+        this.getServices(loadFileDescriptorSetFromBuffer(descriptorSet, this.loaderOptions)).forEach((service, name) => services.set(name, service));
+        this.reflectedServices.set(address, services);
+        return services.get(serviceName);
+    }
+
+    /**
+     * Returns the services discovered by the server reflection so far
+     */
+    public static getReflectedServices(): GrpcServices {
+        const services: GrpcServices = new Map();
+        for (const reflected of this.reflectedServices.values()) {
+            reflected.forEach((service, name) => services.set(name, service));
+        }
+
+        return services;
+    }
+
+    private static getServices(packageDefinition: PackageDefinition): GrpcServices {
+        const services: GrpcServices = new Map();
+        for (const [name, definition] of Object.entries(packageDefinition)) {
+            // message and enum definitions have the format property
+            if (!('format' in definition)) {
+                services.set(name, definition as ServiceDefinition);
+            }
+        }
+
+        return services;
+    }
+}
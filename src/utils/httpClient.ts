@@ -1,21 +1,21 @@
 import * as fs from 'fs-extra';
+import * as http from 'http';
 import * as iconv from 'iconv-lite';
-import * as path from 'path';
 import { CookieJar, Store } from 'tough-cookie';
 import * as url from 'url';
-import { Uri, window } from 'vscode';
+import * as Constants from '../common/constants';
 import { RequestHeaders, ResponseHeaders } from '../models/base';
-import { IRestClientSettings, SystemSettings } from '../models/configurationSettings';
+import { HttpRequestSettings } from '../models/configurationSettings';
 import { HttpRequest } from '../models/httpRequest';
 import { HttpResponse } from '../models/httpResponse';
-import { awsCognito } from './auth/awsCognito';
-import { awsSignature } from './auth/awsSignature';
-import { digest } from './auth/digest';
+import { RequestHost } from '../models/requestHost';
+import { AuthProviderRegistry } from './auth/authProvider';
+import { GrpcClient } from './grpc/grpcClient';
+import { JsonRpcUtility } from './jsonRpcUtility';
 import { MimeUtility } from './mimeUtility';
-import { getHeader, removeHeader } from './misc';
+import { getHeader, removeHeader, shouldUseHttp2 } from './misc';
 import { convertBufferToStream, convertStreamToBuffer } from './streamUtility';
 import { UserDataManager } from './userDataManager';
-import { getCurrentHttpFileName, getWorkspaceRootPath } from './workspaceUtility';
 
 import { CancelableRequest, Headers, Method, OptionsOfBufferResponseBody, Response } from 'got';
 import got = require('got');
@@ -23,6 +23,12 @@ import got = require('got');
 const encodeUrl = require('encodeurl');
 const CookieFileStore = require('tough-cookie-file-store').FileCookieStore;
 
+/**
+ * Called when the response headers are received, returns a listener to receive the decoded body chunks
+ * as they arrive if the response should be streamed
+ */
+export type ResponseStreamHandler = (statusCode: number, statusMessage: string, headers: ResponseHeaders) => ((chunk: string) => void) | undefined;
+
 type Certificate = {
     cert?: Buffer;
     key?: Buffer;
@@ -31,22 +37,33 @@ type Certificate = {
 };
 
 export class HttpClient {
+    private static readonly socketUrlRegex = /^(https?):\/\/unix:(.+?)(?::(\/.*))?$/i;
+
     private cookieStore: Store;
 
-    public constructor() {
-        const cookieFilePath = UserDataManager.cookieFilePath;
-        this.cookieStore = new CookieFileStore(cookieFilePath) as Store;
+    private grpcClient?: GrpcClient;
+
+    public constructor(cookieStore?: Store) {
+        this.cookieStore = cookieStore ?? new CookieFileStore(UserDataManager.cookieFilePath) as Store;
     }
 
-    public async send(httpRequest: HttpRequest, settings?: IRestClientSettings): Promise<HttpResponse> {
-        settings = settings || SystemSettings.Instance;
+    /**
+     * Sends the request, the host is the one of the http file the request belongs to, and resolves the files and
+     * environment settings referenced by the request
+     */
+    public async send(httpRequest: HttpRequest, settings: HttpRequestSettings, host: RequestHost, onResponseStream?: ResponseStreamHandler): Promise<HttpResponse> {
+        if (httpRequest.method === Constants.GrpcRequestMethod) {
+            this.grpcClient = this.grpcClient ?? new GrpcClient();
+            return this.grpcClient.send(httpRequest, settings, host);
+        }
 
-        const options = await this.prepareOptions(httpRequest, settings);
+        const socket = HttpClient.resolveSocket(httpRequest);
+        const options = await this.prepareOptions(httpRequest, settings, host, socket?.socketPath);
 
         let bodySize = 0;
         let headersSize = 0;
         const requestUrl = encodeUrl(httpRequest.url);
-        const request: CancelableRequest<Response<Buffer>> = got.default(requestUrl, options);
+        const request: CancelableRequest<Response<Buffer>> = got.default(socket ? encodeUrl(socket.url) : requestUrl, options);
         httpRequest.setUnderlyingRequest(request);
         (request as any).on('response', res => {
             if (res.rawHeaders) {
@@ -56,22 +73,17 @@ export class HttpClient {
             res.on('data', chunk => {
                 bodySize += chunk.length;
             });
+
+            const onChunk = onResponseStream?.(res.statusCode, res.statusMessage || http.STATUS_CODES[res.statusCode] || '', HttpClient.normalizeHeaderNames(res.headers, res.rawHeaders));
+            if (onChunk) {
+                res.pipe(iconv.decodeStream(HttpClient.getCharset(res.headers['content-type']))).on('data', onChunk);
+            }
         });
 
         const response = await request;
 
-        const contentType = response.headers['content-type'];
-        let encoding: string | undefined;
-        if (contentType) {
-            encoding = MimeUtility.parse(contentType).charset;
-        }
-
-        if (!encoding) {
-            encoding = "utf8";
-        }
-
         const bodyBuffer = response.body;
-        let bodyString = iconv.encodingExists(encoding) ? iconv.decode(bodyBuffer, encoding) : bodyBuffer.toString();
+        let bodyString = iconv.decode(bodyBuffer, HttpClient.getCharset(response.headers['content-type']));
 
         if (settings.decodeEscapedUnicodeCharacters) {
             bodyString = this.decodeEscapedUnicodeCharacters(bodyString);
@@ -82,9 +94,10 @@ export class HttpClient {
 
         const requestBody = options.body;
 
-        return new HttpResponse(
+        const httpResponse = new HttpResponse(
             response.statusCode,
-            response.statusMessage!,
+            // there is no reason phrase in HTTP/2
+            response.statusMessage || http.STATUS_CODES[response.statusCode] || '',
             response.httpVersion,
             responseHeaders,
             bodyString,
@@ -102,6 +115,13 @@ export class HttpClient {
                 httpRequest.rawBody,
                 httpRequest.name
             ));
+
+        // match the JSON-RPC responses to the calls, so that the failed calls are reported wherever the request is sent
+        if (httpRequest.jsonRpcCalls) {
+            httpResponse.jsonRpcResults = JsonRpcUtility.matchResponses(httpRequest.jsonRpcCalls, bodyString);
+        }
+
+        return httpResponse;
     }
 
     public async clearCookies() {
@@ -109,7 +129,7 @@ export class HttpClient {
         this.cookieStore = new CookieFileStore(UserDataManager.cookieFilePath) as Store;
     }
 
-    private async prepareOptions(httpRequest: HttpRequest, settings: IRestClientSettings): Promise<OptionsOfBufferResponseBody> {
+    private async prepareOptions(httpRequest: HttpRequest, settings: HttpRequestSettings, host: RequestHost, socketPath?: string): Promise<OptionsOfBufferResponseBody> {
         const originalRequestBody = httpRequest.body;
         let requestBody: string | Buffer | undefined;
         if (originalRequestBody) {
@@ -143,50 +163,45 @@ export class HttpClient {
         };
 
         if (settings.timeoutInMilliseconds > 0) {
-            options.timeout = settings.timeoutInMilliseconds;
+            // the timeout of streaming responses only applies until the response headers are received
+            const isStreaming = httpRequest.streamResponse || MimeUtility.isEventStream(getHeader(clonedHeaders, 'Accept')?.toString());
+            options.timeout = isStreaming ? { response: settings.timeoutInMilliseconds } : settings.timeoutInMilliseconds;
         }
 
         if (settings.rememberCookiesForSubsequentRequests) {
             options.cookieJar = new CookieJar(this.cookieStore);
         }
 
-        // TODO: refactor auth
+        // the Authorization header written with the raw credentials is replaced by the hooks of its scheme
         const authorization = getHeader(options.headers!, 'Authorization') as string | undefined;
-        if (authorization) {
-            const [scheme, user, ...args] = authorization.split(/\s+/);
-            const normalizedScheme = scheme.toLowerCase();
-            if (args.length > 0) {
-                const pass = args.join(' ');
-                if (normalizedScheme === 'basic') {
-                    removeHeader(options.headers!, 'Authorization');
-                    options.username = user;
-                    options.password = pass;
-                } else if (normalizedScheme === 'digest') {
-                    removeHeader(options.headers!, 'Authorization');
-                    options.hooks!.afterResponse!.push(digest(user, pass));
-                } else if (normalizedScheme === 'aws') {
-                    removeHeader(options.headers!, 'Authorization');
-                    options.hooks!.beforeRequest!.push(awsSignature(authorization));
-                } else if (normalizedScheme === 'cognito') {
-                    removeHeader(options.headers!, 'Authorization');
-                   options.hooks!.beforeRequest!.push(await awsCognito(authorization));
-                }
-            } else if (normalizedScheme === 'basic' && user.includes(':')) {
-                removeHeader(options.headers!, 'Authorization');
-                const [username, password] = user.split(':');
-                options.username = username;
-                options.password = password;
-            }
+        const auth = authorization ? AuthProviderRegistry.resolve(authorization) : undefined;
+        if (auth) {
+            removeHeader(options.headers!, 'Authorization');
+            const hooks = await auth.provider.createHooks(auth.credentials, host);
+            Object.assign(options, hooks.options);
+            options.hooks!.beforeRequest!.push(...hooks.beforeRequest ?? []);
+            options.hooks!.afterResponse!.push(...hooks.afterResponse ?? []);
         }
 
         // set certificate
-        const certificate = this.getRequestCertificate(httpRequest.url, settings);
+        const certificate = await this.getRequestCertificate(httpRequest.url, settings, host);
         Object.assign(options, certificate);
 
+        // requests sent through the local socket neither go through the proxy nor use HTTP/2
+        if (socketPath) {
+            options.socketPath = socketPath;
+            return options;
+        }
+
         // set proxy
         if (settings.proxy && !HttpClient.ignoreProxy(httpRequest.url, settings.excludeHostsForProxy)) {
             const proxyEndpoint = url.parse(settings.proxy);
             if (/^https?:$/.test(proxyEndpoint.protocol || '')) {
+                // the schemes handshaking over a kept-alive connection, like NTLM, provide their own agents
+                if (auth && options.agent) {
+                    throw new Error(`${auth.provider.scheme} authentication can't be sent through the proxy, since its handshake requires a direct connection. Please add the host to rest-client.excludeHostsForProxy.`);
+                }
+
                 const proxyOptions = {
                     host: proxyEndpoint.hostname,
                     port: Number(proxyEndpoint.port),
@@ -201,6 +216,18 @@ export class HttpClient {
             }
         }
 
+        // HTTP/2 is negotiated through ALPN, so https requests fall back to HTTP/1.1 if the server doesn't support it,
+        // and http requests are always sent over HTTP/1.1
+        const useHttp2 = shouldUseHttp2(httpRequest.httpVersionMetadata, httpRequest.httpVersion, settings.enableHttp2);
+        if (useHttp2 && !options.agent) {
+            options.http2 = true;
+
+            // the connection-specific headers are not allowed in HTTP/2
+            for (const name of ['Connection', 'Keep-Alive', 'Proxy-Connection', 'Transfer-Encoding', 'Upgrade']) {
+                removeHeader(options.headers!, name);
+            }
+        }
+
         return options;
     }
 
@@ -211,19 +238,34 @@ export class HttpClient {
         });
     }
 
-    private getRequestCertificate(requestUrl: string, settings: IRestClientSettings): Certificate | null {
+    private async getRequestCertificate(requestUrl: string, settings: HttpRequestSettings, requestHost: RequestHost): Promise<Certificate | null> {
         const host = url.parse(requestUrl).host;
         if (!host || !(host in settings.hostCertificates)) {
             return null;
         }
 
         const { cert: certPath, key: keyPath, pfx: pfxPath, passphrase } = settings.hostCertificates[host];
-        const cert = this.resolveCertificate(certPath);
-        const key = this.resolveCertificate(keyPath);
-        const pfx = this.resolveCertificate(pfxPath);
+        const cert = await this.resolveCertificate(certPath, requestHost);
+        const key = await this.resolveCertificate(keyPath, requestHost);
+        const pfx = await this.resolveCertificate(pfxPath, requestHost);
         return { cert, key, pfx, passphrase };
     }
 
+    /**
+     * Resolves the Unix domain socket or Windows named pipe to send the request through, which is either specified in the url
+     * in the format of `http://unix:<socket path>:<request path>` or the socket metadata. The request url of the former is
+     * rewritten to localhost, which is also used as the Host header and the domain of cookies
+     */
+    private static resolveSocket(httpRequest: HttpRequest): { socketPath: string, url: string } | undefined {
+        const matches = HttpClient.socketUrlRegex.exec(httpRequest.url);
+        if (matches) {
+            const [, scheme, socketPath, path] = matches;
+            return { socketPath, url: `${scheme}://localhost${path ?? '/'}` };
+        }
+
+        return httpRequest.socketPath ? { socketPath: httpRequest.socketPath, url: httpRequest.url } : undefined;
+    }
+
     private static ignoreProxy(requestUrl: string, excludeHostsForProxy: string[]): Boolean {
         if (!excludeHostsForProxy || excludeHostsForProxy.length === 0) {
             return false;
@@ -253,45 +295,18 @@ export class HttpClient {
         return false;
     }
 
-    private resolveCertificate(absoluteOrRelativePath: string | undefined): Buffer | undefined {
+    private async resolveCertificate(absoluteOrRelativePath: string | undefined, host: RequestHost): Promise<Buffer | undefined> {
         if (absoluteOrRelativePath === undefined) {
             return undefined;
         }
 
-        if (path.isAbsolute(absoluteOrRelativePath)) {
-            if (!fs.existsSync(absoluteOrRelativePath)) {
-                window.showWarningMessage(`Certificate path ${absoluteOrRelativePath} doesn't exist, please make sure it exists.`);
-                return undefined;
-            } else {
-                return fs.readFileSync(absoluteOrRelativePath);
-            }
-        }
-
-        // the path should be relative path
-        const rootPath = getWorkspaceRootPath();
-        let absolutePath = '';
-        if (rootPath) {
-            absolutePath = path.join(Uri.parse(rootPath).fsPath, absoluteOrRelativePath);
-            if (fs.existsSync(absolutePath)) {
-                return fs.readFileSync(absolutePath);
-            } else {
-                window.showWarningMessage(`Certificate path ${absoluteOrRelativePath} doesn't exist, please make sure it exists.`);
-                return undefined;
-            }
-        }
-
-        const currentFilePath = getCurrentHttpFileName();
-        if (!currentFilePath) {
+        const absolutePath = await host.resolveFilePath(absoluteOrRelativePath);
+        if (!absolutePath) {
+            host.showWarning(`Certificate path ${absoluteOrRelativePath} doesn't exist, please make sure it exists.`);
             return undefined;
         }
 
-        absolutePath = path.join(path.dirname(currentFilePath), absoluteOrRelativePath);
-        if (fs.existsSync(absolutePath)) {
-            return fs.readFileSync(absolutePath);
-        } else {
-            window.showWarningMessage(`Certificate path ${absoluteOrRelativePath} doesn't exist, please make sure it exists.`);
-            return undefined;
-        }
+        return fs.readFile(absolutePath);
     }
 
     private static normalizeHeaderNames<T extends RequestHeaders | ResponseHeaders>(headers: T, rawHeaders: string[]): T {
@@ -310,4 +325,9 @@ export class HttpClient {
 
         return adjustedResponseHeaders as T;
     }
+
+    private static getCharset(contentType: string | undefined): string {
+        const charset = contentType && MimeUtility.parse(contentType).charset;
+        return charset && iconv.encodingExists(charset) ? charset : 'utf8';
+    }
 }
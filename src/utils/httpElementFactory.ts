@@ -3,6 +3,7 @@ import { MarkdownString, SnippetString, TextDocument, window } from 'vscode';
 import * as Constants from '../common/constants';
 import { ElementType, HttpElement } from '../models/httpElement';
 import { RequestMetadata } from '../models/requestMetadata';
+import { AuthProviderRegistry } from './auth/authProvider';
 import { EnvironmentVariableProvider } from './httpVariableProviders/environmentVariableProvider';
 import { FileVariableProvider } from './httpVariableProviders/fileVariableProvider';
 import { RequestVariableProvider } from './httpVariableProviders/requestVariableProvider';
@@ -23,6 +24,8 @@ export class HttpElementFactory {
         originalElements.push(new HttpElement('OPTIONS', ElementType.Method));
         originalElements.push(new HttpElement('TRACE', ElementType.Method));
         originalElements.push(new HttpElement('CONNECT', ElementType.Method));
+        originalElements.push(new HttpElement('WEBSOCKET', ElementType.Method));
+        originalElements.push(new HttpElement('GRPC', ElementType.Method));
 
         // add http headers
         originalElements.push(new HttpElement('Accept', ElementType.Header, null, 'Specify certain media types which are acceptable for the response'));
@@ -81,11 +84,12 @@ export class HttpElementFactory {
         originalElements.push(new HttpElement("text/plain", ElementType.MIME, '^\\s*(Content-Type|Accept)\\s*\\:\\s*'));
         originalElements.push(new HttpElement("text/xml", ElementType.MIME, '^\\s*(Content-Type|Accept)\\s*\\:\\s*'));
 
-        // add Basic, Digest Authentication snippet
-        originalElements.push(new HttpElement("Basic Base64", ElementType.Authentication, '^\\s*Authorization\\s*\\:\\s*', "Base64 encoded username and password", new SnippetString(`Basic \${1:base64-user-password}`)));
-        originalElements.push(new HttpElement("Basic Raw Credential (Colon Separated)", ElementType.Authentication, '^\\s*Authorization\\s*\\:\\s*', "Raw username and password", new SnippetString(`Basic \${1:username}:\${2:password}`)));
-        originalElements.push(new HttpElement("Basic Raw Credential (Space Separated)", ElementType.Authentication, '^\\s*Authorization\\s*\\:\\s*', "Raw username and password", new SnippetString(`Basic \${1:username} \${2:password}`)));
-        originalElements.push(new HttpElement("Digest", ElementType.Authentication, '^\\s*Authorization\\s*\\:\\s*', "Raw username and password", new SnippetString(`Digest \${1:username} \${2:password}`)));
+        // add the snippets of the registered authentication schemes
+        for (const { completions } of AuthProviderRegistry.all) {
+            for (const { label, description, snippet } of completions) {
+                originalElements.push(new HttpElement(label, ElementType.Authentication, '^\\s*Authorization\\s*\\:\\s*', description, new SnippetString(snippet)));
+            }
+        }
 
         // add global variables
         originalElements.push(new HttpElement(
@@ -144,6 +148,12 @@ export class HttpElementFactory {
                 null,
                 Constants.OidcDescription,
                 new SnippetString(`{{$\${name:${Constants.OidcVariableName.slice(1)}}}}`)));
+        originalElements.push(new HttpElement(
+            Constants.OAuth2VariableName,
+            ElementType.SystemVariable,
+            null,
+            Constants.OAuth2Description,
+            new SnippetString(`{{$\${name:${Constants.OAuth2VariableName.slice(1)}} \${1:profile name}}}`)));
         originalElements.push(new HttpElement(
             Constants.AzureActiveDirectoryV2TokenVariableName,
             ElementType.SystemVariable,
@@ -1,15 +1,17 @@
 import * as fs from 'fs-extra';
 import { EOL } from 'os';
 import { Stream } from 'stream';
-import { IRestClientSettings } from '../models/configurationSettings';
+import { HttpRequestSettings } from '../models/configurationSettings';
 import { FormParamEncodingStrategy } from '../models/formParamEncodingStrategy';
 import { HttpRequest } from '../models/httpRequest';
+import { JsonRpcCall } from '../models/jsonRpc';
+import { RequestHost } from '../models/requestHost';
 import { RequestParser } from '../models/requestParser';
+import { JsonRpcUtility } from './jsonRpcUtility';
 import { MimeUtility } from './mimeUtility';
 import { getContentType, getHeader, removeHeader } from './misc';
-import { parseRequestHeaders, resolveRequestBodyPath } from './requestParserUtil';
+import { parseRequestHeaders } from './requestParserUtil';
 import { convertStreamToString } from './streamUtility';
-import { VariableProcessor } from "./variableProcessor";
 
 const CombinedStream = require('combined-stream');
 const encodeurl = require('encodeurl');
@@ -26,7 +28,10 @@ export class HttpRequestParser implements RequestParser {
     private readonly inputFileSyntax = /^<(?:(?<processVariables>@)(?<encoding>\w+)?)?\s+(?<filepath>.+?)\s*$/;
     private readonly defaultFileEncoding = 'utf8';
 
-    public constructor(private readonly requestRawText: string, private readonly settings: IRestClientSettings) {
+    public constructor(
+        private readonly requestRawText: string,
+        private readonly settings: HttpRequestSettings,
+        private readonly host: RequestHost) {
     }
 
     public async parseHttpRequest(name?: string): Promise<HttpRequest> {
@@ -82,7 +87,16 @@ export class HttpRequestParser implements RequestParser {
         removeHeader(headers, 'content-length');
 
         // check request type
-        const isGraphQlRequest = getHeader(headers, 'X-Request-Type') === 'GraphQL'.toLowerCase();
+        const requestType = getHeader(headers, 'X-Request-Type')?.toString().toLowerCase();
+        const isGraphQlRequest = requestType === 'graphql';
+        const isJsonRpcRequest = requestType === 'json-rpc' || requestType === 'jsonrpc';
+        if (isJsonRpcRequest) {
+            removeHeader(headers, 'X-Request-Type');
+            if (!getContentType(headers)) {
+                headers['Content-Type'] = 'application/json';
+            }
+        }
+
         if (isGraphQlRequest) {
             removeHeader(headers, 'X-Request-Type');
 
@@ -97,8 +111,13 @@ export class HttpRequestParser implements RequestParser {
         // parse body lines
         const contentTypeHeader = getContentType(headers);
         let body = await this.parseBody(bodyLines, contentTypeHeader);
+        let jsonRpcCalls: JsonRpcCall[] | undefined;
         if (isGraphQlRequest) {
             body = await this.createGraphQlBody(variableLines, contentTypeHeader, body);
+        } else if (isJsonRpcRequest) {
+            const { payload, calls } = JsonRpcUtility.createPayload(body && typeof body !== 'string' ? await convertStreamToString(body) : body);
+            body = payload;
+            jsonRpcCalls = calls;
         } else if (this.settings.formParamEncodingStrategy !== FormParamEncodingStrategy.Never && typeof body === 'string' && MimeUtility.isFormUrlEncoded(contentTypeHeader)) {
             if (this.settings.formParamEncodingStrategy === FormParamEncodingStrategy.Always) {
                 const stringPairs = body.split('&');
@@ -122,7 +141,10 @@ export class HttpRequestParser implements RequestParser {
             requestLine.url = `${scheme}://${host}${requestLine.url}`;
         }
 
-        return new HttpRequest(requestLine.method, requestLine.url, headers, body, bodyLines.join(EOL), name);
+        const request = new HttpRequest(requestLine.method, requestLine.url, headers, body, bodyLines.join(EOL), name);
+        request.httpVersion = requestLine.httpVersion;
+        request.jsonRpcCalls = jsonRpcCalls;
+        return request;
     }
 
     private async createGraphQlBody(variableLines: string[], contentTypeHeader: string | undefined, body: string | Stream | undefined) {
@@ -146,13 +168,13 @@ export class HttpRequestParser implements RequestParser {
         return JSON.stringify(graphQlPayload);
     }
 
-    private parseRequestLine(line: string): { method: string, url: string } {
+    private parseRequestLine(line: string): { method: string, url: string, httpVersion?: string } {
         // Request-Line = Method SP Request-URI SP HTTP-Version CRLF
         let method: string;
         let url: string;
 
         let match: RegExpExecArray | null;
-        if (match = /^(GET|POST|PUT|DELETE|PATCH|HEAD|OPTIONS|CONNECT|TRACE|LOCK|UNLOCK|PROPFIND|PROPPATCH|COPY|MOVE|MKCOL|MKCALENDAR|ACL|SEARCH)\s+/i.exec(line)) {
+        if (match = /^(GET|POST|PUT|DELETE|PATCH|HEAD|OPTIONS|CONNECT|TRACE|LOCK|UNLOCK|PROPFIND|PROPPATCH|COPY|MOVE|MKCOL|MKCALENDAR|ACL|SEARCH|WEBSOCKET|GRPC)\s+/i.exec(line)) {
             method = match[1];
             url = line.substr(match[0].length);
         } else {
@@ -163,11 +185,13 @@ export class HttpRequestParser implements RequestParser {
 
         url = url.trim();
 
-        if (match = /\s+HTTP\/.*$/i.exec(url)) {
+        let httpVersion: string | undefined;
+        if (match = /\s+HTTP\/(.*)$/i.exec(url)) {
             url = url.substr(0, match.index);
+            httpVersion = match[1].trim();
         }
 
-        return { method, url };
+        return { method, url, httpVersion };
     }
 
     private async parseBody(lines: string[], contentTypeHeader: string | undefined): Promise<string | Stream | undefined> {
@@ -198,12 +222,12 @@ export class HttpRequestParser implements RequestParser {
                     const groupsValues = groups?.groups;
                     if (groups?.length === 4 && !!groupsValues) {
                         const inputFilePath = groupsValues.filepath;
-                        const fileAbsolutePath = await resolveRequestBodyPath(inputFilePath);
+                        const fileAbsolutePath = await this.host.resolveFilePath(inputFilePath);
                         if (fileAbsolutePath) {
                             if (groupsValues.processVariables) {
                                 const buffer = await fs.readFile(fileAbsolutePath);
                                 const fileContent = buffer.toString((groupsValues.encoding || this.defaultFileEncoding) as BufferEncoding);
-                                const resolvedContent = await VariableProcessor.processRawRequest(fileContent);
+                                const resolvedContent = await this.host.resolveVariables(fileContent);
                                 combinedStream.append(resolvedContent);
                             } else {
                                 combinedStream.append(fs.createReadStream(fileAbsolutePath));
@@ -0,0 +1,190 @@
+import { CancellationToken, TextDocument, window } from 'vscode';
+import * as Constants from '../common/constants';
+import { RequestSettings, RestClientSettings } from '../models/configurationSettings';
+import { HttpRequest } from '../models/httpRequest';
+import { HttpResponse } from '../models/httpResponse';
+import { getResponseTestState, HttpTestReport, RequestTestResult, TestState } from '../models/httpTestResult';
+import { RequestMetadata } from '../models/requestMetadata';
+import { SelectedRequest } from '../models/SelectedRequest';
+import { DataFileParser, DataRow } from './dataFileParser';
+import { isGraphQlSubscription } from './graphql/graphQlUtility';
+import { HttpClient } from './httpClient';
+import { RequestDependencyResolver } from './requestDependencyResolver';
+import { prepareRequest } from './requestPreparer';
+import { RequestVariableCache } from './requestVariableCache';
+import { ResponseAssertionProcessor } from './responseAssertionProcessor';
+import { ResponseHistory } from './responseHistory';
+import { ResponseSnapshotProcessor } from './responseSnapshotProcessor';
+import { Selector } from './selector';
+import { WorkspaceRequestHost } from './workspaceRequestHost';
+
+export class HttpTestRunner {
+    public constructor(private readonly httpClient: HttpClient = new HttpClient()) {
+    }
+
+    public static getRequestRanges(document: TextDocument): [number, number][] {
+        const lines = document.getText().split(Constants.LineSplitterRegex);
+        return Selector.getRequestRanges(lines);
+    }
+
+    public async runAll(document: TextDocument, token?: CancellationToken, onDidRunRequest?: (result: RequestTestResult) => void): Promise<HttpTestReport> {
+        const startTime = Date.now();
+        const results: RequestTestResult[] = [];
+        for (const range of HttpTestRunner.getRequestRanges(document)) {
+            const rangeResults: RequestTestResult[] = token?.isCancellationRequested
+                ? [{ range, state: TestState.Skipped, assertionResults: [], duration: 0, message: 'Test run is cancelled' }]
+                : await this.runRequest(document, range, token);
+            results.push(...rangeResults);
+            rangeResults.forEach(result => onDidRunRequest?.(result));
+        }
+
+        return {
+            fileName: document.fileName,
+            startTime,
+            duration: Date.now() - startTime,
+            results
+        };
+    }
+
+    /**
+     * Sends the named requests that the given request text references but haven't been sent yet,
+     * so that their responses are available as request variables
+     */
+    public async runDependencies(document: TextDocument, requestText: string, token?: CancellationToken): Promise<RequestTestResult[]> {
+        const dependencies = new RequestDependencyResolver(document.getText())
+            .resolve(requestText, name => RequestVariableCache.has(document, name));
+        const results: RequestTestResult[] = [];
+        for (const { name, range } of dependencies) {
+            const dependencyResults = await this.runRequest(document, range, token);
+            results.push(...dependencyResults);
+            const unsent = dependencyResults.find(r => r.state === TestState.Errored || r.state === TestState.Skipped);
+            if (unsent) {
+                throw new Error(`Dependent request "${name}" is not sent. ${unsent.message ?? ''}`.trim());
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * Sends the request in the given range of the document, the request with `@data` metadata is sent once per data row,
+     * and a result is returned for each of them
+     */
+    public async runRequest(document: TextDocument, range: [number, number], token?: CancellationToken): Promise<RequestTestResult[]> {
+        const result: RequestTestResult = { range, state: TestState.Errored, assertionResults: [], duration: 0 };
+        let dataRows: (DataRow | undefined)[] = [undefined];
+        let selectedRequests: SelectedRequest[] | null;
+        try {
+            const requestText = Selector.getDelimitedText(document.getText(), range[0]);
+            const metadatas = Selector.parseReqMetadatas(requestText?.split(Constants.LineSplitterRegex) ?? []);
+            if (metadatas.has(RequestMetadata.Data)) {
+                dataRows = await DataFileParser.load(metadatas.get(RequestMetadata.Data), new WorkspaceRequestHost(document));
+            }
+
+            selectedRequests = requestText !== null
+                ? await Selector.getRequestsFromText(requestText, dataRows.map(row => new Map(Object.entries(row ?? {}))), document)
+                : null;
+        } catch (error) {
+            result.message = error.message;
+            return [result];
+        }
+
+        if (!selectedRequests) {
+            result.state = TestState.Skipped;
+            result.message = 'No request is found';
+            return [result];
+        }
+
+        const { metadatas } = selectedRequests[0];
+        const name = result.name = metadatas.get(RequestMetadata.Name);
+        if (metadatas.has(RequestMetadata.Note)) {
+            const request = name ? `the request "${name}"` : 'this request';
+            const note = `Are you sure you want to send ${request}${selectedRequests.length > 1 ? ` ${selectedRequests.length} times` : ''}?`;
+            const userConfirmed = await window.showWarningMessage(note, 'Yes', 'No');
+            if (userConfirmed !== 'Yes') {
+                result.state = TestState.Skipped;
+                result.message = 'Request is not confirmed to send';
+                return [result];
+            }
+        }
+
+        const results: RequestTestResult[] = [];
+        for (const [index, selectedRequest] of selectedRequests.entries()) {
+            const dataRow = dataRows[index];
+            results.push(token?.isCancellationRequested
+                ? { name, range, state: TestState.Skipped, assertionResults: [], duration: 0, message: 'Request is cancelled', dataRow }
+                : { ...await this.runSelectedRequest(document, range, selectedRequest, dataRow ? index : undefined, token), dataRow });
+        }
+
+        return results;
+    }
+
+    /**
+     * Sends an already parsed request of the document, and evaluates its response assertions
+     */
+    private async runSelectedRequest(
+        document: TextDocument,
+        range: [number, number],
+        selectedRequest: SelectedRequest,
+        dataRowIndex: number | undefined,
+        token?: CancellationToken): Promise<RequestTestResult> {
+        const startTime = Date.now();
+        const name = selectedRequest.metadatas.get(RequestMetadata.Name);
+        const result: RequestTestResult = { name, range, state: TestState.Errored, assertionResults: [], duration: 0 };
+        let httpRequest: HttpRequest | undefined;
+        try {
+            // the variables and files are resolved against the document being run, which may not be the active one
+            const host = new WorkspaceRequestHost(document);
+            const settings = new RestClientSettings(new RequestSettings(selectedRequest.metadatas));
+            httpRequest = await prepareRequest(selectedRequest, settings, host, dataRowIndex);
+            result.method = httpRequest.method;
+            result.url = httpRequest.url;
+
+            if (httpRequest.method === Constants.WebSocketRequestMethod) {
+                result.state = TestState.Skipped;
+                result.message = 'WebSocket request can only be sent from the editor';
+                return result;
+            }
+
+            if (isGraphQlSubscription(httpRequest)) {
+                result.state = TestState.Skipped;
+                result.message = 'GraphQL subscription can only be sent from the editor';
+                return result;
+            }
+
+            const cancellation = token?.onCancellationRequested(() => httpRequest?.cancel());
+            let response: HttpResponse;
+            try {
+                response = await this.httpClient.send(httpRequest, settings, host);
+            } finally {
+                cancellation?.dispose();
+            }
+
+            if (name) {
+                RequestVariableCache.add(document, name, response);
+            }
+
+            ResponseHistory.add(response);
+
+            response.assertionResults = ResponseAssertionProcessor.evaluate(response, httpRequest.assertions);
+            if (httpRequest.snapshot) {
+                response.assertionResults.push(await ResponseSnapshotProcessor.check(response, httpRequest.snapshot));
+            }
+            result.response = response;
+            result.assertionResults = response.assertionResults;
+            Object.assign(result, getResponseTestState(response));
+        } catch (error) {
+            if (httpRequest?.isCancelled) {
+                result.state = TestState.Skipped;
+                result.message = 'Request is cancelled';
+            } else {
+                result.state = TestState.Errored;
+                result.message = error.message;
+            }
+        } finally {
+            result.duration = Date.now() - startTime;
+        }
+
+        return result;
+    }
+}
@@ -0,0 +1,79 @@
+import * as Constants from '../../common/constants';
+import { ResolveErrorMessage } from '../../models/httpVariableResolveResult';
+import { VariableType } from '../../models/variableType';
+import { HttpVariable, HttpVariableProvider } from './httpVariableProvider';
+
+export type EnvironmentVariables = { [key: string]: { [key: string]: string } };
+
+/**
+ * Resolves variables from the selected environment and the shared environment, where the environments
+ * come from the subclasses
+ */
+export abstract class BaseEnvironmentVariableProvider implements HttpVariableProvider {
+
+    public readonly type: VariableType = VariableType.Environment;
+
+    public async has(name: string): Promise<boolean> {
+        const variables = await this.getAvailableVariables();
+        return name in variables;
+    }
+
+    public async get(name: string): Promise<HttpVariable> {
+        const variables = await this.getAvailableVariables();
+        if (!(name in variables)) {
+            return { name, error: ResolveErrorMessage.EnvironmentVariableNotExist };
+        }
+
+        return { name, value: variables[name] };
+    }
+
+    public async getAll(): Promise<HttpVariable[]> {
+        const variables = await this.getAvailableVariables();
+        return Object.keys(variables).map(key => ({ name: key, value: variables[key]}));
+    }
+
+    protected abstract getEnvironmentName(): Promise<string>;
+
+    protected abstract getEnvironmentVariables(): EnvironmentVariables;
+
+    private async getAvailableVariables(): Promise<{ [key: string]: string }> {
+        let environmentName = await this.getEnvironmentName();
+        if (environmentName === Constants.NoEnvironmentSelectedName) {
+            environmentName = Constants.SharedEnvironmentName;
+        }
+        const variables = this.getEnvironmentVariables();
+        const currentEnvironmentVariables = variables[environmentName];
+        const sharedEnvironmentVariables = variables[Constants.SharedEnvironmentName];
+
+        // Resolve mappings from shared environment
+        this.mapEnvironmentVariables('shared', sharedEnvironmentVariables, sharedEnvironmentVariables);
+        this.mapEnvironmentVariables('shared', currentEnvironmentVariables, sharedEnvironmentVariables);
+
+        // Resolve mappings from current environment
+        this.mapEnvironmentVariables(environmentName, currentEnvironmentVariables, currentEnvironmentVariables);
+
+        // OAuth 2.0 profiles are resolved by the $oauth2 system variable and signing profiles by the Authorization
+        // header, rather than referenced directly
+        const available = { ...sharedEnvironmentVariables, ...currentEnvironmentVariables };
+        delete available[Constants.OAuth2ProfilesName];
+        delete available[Constants.SigningProfilesName];
+        return available;
+    }
+
+    private mapEnvironmentVariables(environment: string, current: { [key: string]: string }, shared: { [key: string]: string }) {
+        for (const [key, value] of Object.entries(current)) {
+            const variableRegex = new RegExp(`\\{{2}\\$${environment} (.+?)\\}{2}`);
+            const match = variableRegex.exec(value);
+
+            if (!match) {
+                continue;
+            }
+
+            const referenceKey = match[1].trim();
+
+            current[key] = current[key]!.replace(
+                variableRegex,
+                shared[referenceKey]!);
+        }
+    }
+}
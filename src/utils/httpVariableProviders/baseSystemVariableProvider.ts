@@ -0,0 +1,176 @@
+import dayjs, { Dayjs, ManipulateType } from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import { TextDocument } from 'vscode';
+import * as Constants from '../../common/constants';
+import { ResolveErrorMessage, ResolveWarningMessage } from '../../models/httpVariableResolveResult';
+import { VariableType } from '../../models/variableType';
+import { HttpVariable, HttpVariableContext, HttpVariableProvider } from './httpVariableProvider';
+
+const uuidv4 = require('uuid/v4');
+
+dayjs.extend(utc);
+
+export type SystemVariableValue = Pick<HttpVariable, Exclude<keyof HttpVariable, 'name'>>;
+export type ResolveSystemVariableFunc = (name: string, document: TextDocument, context: HttpVariableContext) => Promise<SystemVariableValue>;
+
+/**
+ * Provides the system variables which are independent of the editor, the editor specific ones
+ * are registered by the subclasses
+ */
+export abstract class BaseSystemVariableProvider implements HttpVariableProvider {
+
+    protected readonly resolveFuncs: Map<string, ResolveSystemVariableFunc> = new Map<string, ResolveSystemVariableFunc>();
+    private readonly timestampRegex: RegExp = new RegExp(`\\${Constants.TimeStampVariableName}(?:\\s(\\-?\\d+)\\s(y|Q|M|w|d|h|m|s|ms))?`);
+    private readonly datetimeRegex: RegExp = new RegExp(`\\${Constants.DateTimeVariableName}\\s(rfc1123|iso8601|\'.+\'|\".+\")(?:\\s(\\-?\\d+)\\s(y|Q|M|w|d|h|m|s|ms))?`);
+    private readonly localDatetimeRegex: RegExp = new RegExp(`\\${Constants.LocalDateTimeVariableName}\\s(rfc1123|iso8601|\'.+\'|\".+\")(?:\\s(\\-?\\d+)\\s(y|Q|M|w|d|h|m|s|ms))?`);
+    private readonly randomIntegerRegex: RegExp = new RegExp(`\\${Constants.RandomIntVariableName}\\s(\\-?\\d+)\\s(\\-?\\d+)`);
+    private readonly processEnvRegex: RegExp = new RegExp(`\\${Constants.ProcessEnvVariableName}\\s(\\%)?(\\w+)`);
+
+    protected constructor() {
+        this.registerTimestampVariable();
+        this.registerDateTimeVariable();
+        this.registerLocalDateTimeVariable();
+        this.registerGuidVariable();
+        this.registerRandomIntVariable();
+        this.registerProcessEnvVariable();
+    }
+
+    public readonly type: VariableType = VariableType.System;
+
+    public async has(name: string, document?: TextDocument): Promise<boolean> {
+        const [variableName] = name.split(' ').filter(Boolean);
+        return this.resolveFuncs.has(variableName);
+    }
+
+    public async get(name: string, document: TextDocument, context: HttpVariableContext): Promise<HttpVariable> {
+        const [variableName] = name.split(' ').filter(Boolean);
+        if (!this.resolveFuncs.has(variableName)) {
+            return { name: variableName, error: ResolveErrorMessage.SystemVariableNotExist };
+        }
+
+        const result = await this.resolveFuncs.get(variableName)!(name, document, context);
+        return { name: variableName, ...result };
+    }
+
+    public async getAll(document: undefined, context: HttpVariableContext): Promise<HttpVariable[]> {
+        return [...this.resolveFuncs.keys()].map(name => ({ name }));
+    }
+
+    protected abstract readonly innerSettingsEnvironmentVariableProvider: HttpVariableProvider;
+
+    private registerTimestampVariable() {
+        this.resolveFuncs.set(Constants.TimeStampVariableName, async name => {
+            const groups = this.timestampRegex.exec(name);
+            if (groups !== null && groups.length === 3) {
+                const [, offset, option] = groups;
+                const ts = offset && option
+                    ? dayjs.utc().add(+offset, option as ManipulateType).unix()
+                    : dayjs.utc().unix();
+                return { value: ts.toString() };
+            }
+
+            return { warning: ResolveWarningMessage.IncorrectTimestampVariableFormat };
+        });
+    }
+
+    private registerDateTimeVariable() {
+        this.resolveFuncs.set(Constants.DateTimeVariableName, async name => {
+            const groups = this.datetimeRegex.exec(name);
+            if (groups !== null && groups.length === 4) {
+                const [, type, offset, option] = groups;
+                let date: Dayjs;
+                if (offset && option) {
+                    date = dayjs.utc().add(+offset, option as ManipulateType);
+                } else {
+                    date = dayjs.utc();
+                }
+
+                if (type === 'rfc1123') {
+                    return { value: date.toDate().toUTCString() };
+                } else if (type === 'iso8601') {
+                    return { value: date.toISOString() };
+                } else {
+                    return { value: date.format(type.slice(1, type.length - 1)) };
+                }
+            }
+
+            return { warning: ResolveWarningMessage.IncorrectDateTimeVariableFormat };
+        });
+    }
+
+    private registerLocalDateTimeVariable() {
+        this.resolveFuncs.set(Constants.LocalDateTimeVariableName, async name => {
+            const groups = this.localDatetimeRegex.exec(name);
+            if (groups !== null && groups.length === 4) {
+                const [, type, offset, option] = groups;
+                let date = dayjs.utc().local();
+                if (offset && option) {
+                    date = date.add(+offset, option as ManipulateType);
+                }
+
+                if (type === 'rfc1123') {
+                    return { value: date.locale('en').format('ddd, DD MMM YYYY HH:mm:ss ZZ') };
+                } else if (type === 'iso8601') {
+                    return { value: date.format() };
+                } else {
+                    return { value: date.format(type.slice(1, type.length - 1)) };
+                }
+            }
+
+            return { warning: ResolveWarningMessage.IncorrectLocalDateTimeVariableFormat };
+        });
+    }
+
+    private registerGuidVariable() {
+        this.resolveFuncs.set(Constants.GuidVariableName, async () => ({ value: uuidv4() }));
+    }
+
+    private registerRandomIntVariable() {
+        this.resolveFuncs.set(Constants.RandomIntVariableName, async name => {
+            const groups = this.randomIntegerRegex.exec(name);
+            if (groups !== null && groups.length === 3) {
+                const [, min, max] = groups;
+                const minNum = Number(min);
+                const maxNum = Number(max);
+                if (minNum < maxNum) {
+                    return { value: (Math.floor(Math.random() * (maxNum - minNum)) + minNum).toString() };
+                }
+            }
+
+            return { warning: ResolveWarningMessage.IncorrectRandomIntegerVariableFormat };
+        });
+    }
+
+    private registerProcessEnvVariable() {
+        this.resolveFuncs.set(Constants.ProcessEnvVariableName, async name => {
+            const groups = this.processEnvRegex.exec(name);
+            if (groups !== null && groups.length === 3 ) {
+                const [, refToggle, environmentVarName] = groups;
+                let processEnvName = environmentVarName;
+                if (refToggle !== undefined) {
+                    processEnvName = await this.resolveSettingsEnvironmentVariable(environmentVarName);
+                }
+                const envValue = process.env[processEnvName];
+                if (envValue !== undefined) {
+                    return { value: envValue.toString() };
+                } else {
+                    return { value: '' };
+                }
+            }
+            return { warning: ResolveWarningMessage.IncorrectProcessEnvVariableFormat };
+        });
+    }
+
+    protected async resolveSettingsEnvironmentVariable(name: string): Promise<string> {
+        if (await this.innerSettingsEnvironmentVariableProvider.has(name)) {
+            const { value, error, warning } =  await this.innerSettingsEnvironmentVariableProvider.get(name);
+            if (!error && !warning) {
+                return value!.toString();
+            } else {
+                return name;
+            }
+        } else {
+            return name;
+        }
+    }
+}
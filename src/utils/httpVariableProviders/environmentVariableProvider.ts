@@ -1,11 +1,8 @@
-import * as Constants from '../../common/constants';
 import { EnvironmentController } from '../../controllers/environmentController';
 import { SystemSettings } from '../../models/configurationSettings';
-import { ResolveErrorMessage } from '../../models/httpVariableResolveResult';
-import { VariableType } from '../../models/variableType';
-import { HttpVariable, HttpVariableProvider } from './httpVariableProvider';
+import { BaseEnvironmentVariableProvider, EnvironmentVariables } from './baseEnvironmentVariableProvider';
 
-export class EnvironmentVariableProvider implements HttpVariableProvider {
+export class EnvironmentVariableProvider extends BaseEnvironmentVariableProvider {
     private static _instance: EnvironmentVariableProvider;
 
     private readonly _settings: SystemSettings = SystemSettings.Instance;
@@ -19,61 +16,15 @@ export class EnvironmentVariableProvider implements HttpVariableProvider {
     }
 
     private constructor() {
+        super();
     }
 
-    public readonly type: VariableType = VariableType.Environment;
-
-    public async has(name: string): Promise<boolean> {
-        const variables = await this.getAvailableVariables();
-        return name in variables;
-    }
-
-    public async get(name: string): Promise<HttpVariable> {
-        const variables = await this.getAvailableVariables();
-        if (!(name in variables)) {
-            return { name, error: ResolveErrorMessage.EnvironmentVariableNotExist };
-        }
-
-        return { name, value: variables[name] };
-    }
-
-    public async getAll(): Promise<HttpVariable[]> {
-        const variables = await this.getAvailableVariables();
-        return Object.keys(variables).map(key => ({ name: key, value: variables[key]}));
-    }
-
-    private async getAvailableVariables(): Promise<{ [key: string]: string }> {
-        let { name: environmentName } = await EnvironmentController.getCurrentEnvironment();
-        if (environmentName === Constants.NoEnvironmentSelectedName) {
-            environmentName = EnvironmentController.sharedEnvironmentName;
-        }
-        const variables = this._settings.environmentVariables;
-        const currentEnvironmentVariables = variables[environmentName];
-        const sharedEnvironmentVariables = variables[EnvironmentController.sharedEnvironmentName];
-
-        // Resolve mappings from shared environment
-        this.mapEnvironmentVariables('shared', sharedEnvironmentVariables, sharedEnvironmentVariables);
-        this.mapEnvironmentVariables('shared', currentEnvironmentVariables, sharedEnvironmentVariables);
-
-        // Resolve mappings from current environment
-        this.mapEnvironmentVariables(environmentName, currentEnvironmentVariables, currentEnvironmentVariables);
-        return {...sharedEnvironmentVariables, ...currentEnvironmentVariables};
+    protected async getEnvironmentName(): Promise<string> {
+        const { name } = await EnvironmentController.getCurrentEnvironment();
+        return name;
     }
 
-    private mapEnvironmentVariables(environment: string, current: { [key: string]: string }, shared: { [key: string]: string }) {
-        for (const [key, value] of Object.entries(current)) {
-            const variableRegex = new RegExp(`\\{{2}\\$${environment} (.+?)\\}{2}`);
-            const match = variableRegex.exec(value);
-
-            if (!match) {
-                continue;
-            }
-
-            const referenceKey = match[1].trim();
-
-            current[key] = current[key]!.replace(
-                variableRegex,
-                shared[referenceKey]!);
-        }
+    protected getEnvironmentVariables(): EnvironmentVariables {
+        return this._settings.environmentVariables;
     }
 }
@@ -0,0 +1,68 @@
+import { JsonRpcCall, JsonRpcResult } from '../models/jsonRpc';
+
+export class JsonRpcUtility {
+    private static nextId = 1;
+
+    /**
+     * Builds the JSON-RPC 2.0 request object, or the batch of request objects, from the `method` and `params` of the calls
+     * in the request body, the `id` is auto-incremented unless specified
+     */
+    public static createPayload(body: string | undefined): { payload: string, calls: JsonRpcCall[] } {
+        let parsed: any;
+        try {
+            parsed = JSON.parse(body || '');
+        } catch {
+            throw new Error('The body of JSON-RPC request must be a JSON object or an array of JSON objects with method and params.');
+        }
+
+        const isBatch = Array.isArray(parsed);
+        const requests: { jsonrpc: string, method: string, params?: unknown, id: JsonRpcCall['id'] }[] = (isBatch ? parsed : [parsed]).map((call: any) => {
+            if (typeof call?.method !== 'string') {
+                throw new Error('Each call of JSON-RPC request must have a method.');
+            }
+
+            const { method, params } = call;
+            const id = 'id' in call ? call.id : this.nextId++;
+            return params === undefined ? { jsonrpc: '2.0', method, id } : { jsonrpc: '2.0', method, params, id };
+        });
+
+        if (requests.length === 0) {
+            throw new Error('The batch of JSON-RPC request must not be empty.');
+        }
+
+        return {
+            payload: JSON.stringify(isBatch ? requests : requests[0]),
+            calls: requests.map(({ id, method }) => ({ id, method }))
+        };
+    }
+
+    /**
+     * Matches the response objects to the calls by id, the results are in the order of the calls, followed by the errors
+     * that can't be matched. Returns an empty array if the response isn't a JSON-RPC response
+     */
+    public static matchResponses(calls: JsonRpcCall[], body: string): JsonRpcResult[] {
+        let parsed: any;
+        try {
+            parsed = JSON.parse(body);
+        } catch {
+            return [];
+        }
+
+        const responses: any[] = (Array.isArray(parsed) ? parsed : [parsed]).filter(r => r?.jsonrpc === '2.0');
+        if (responses.length === 0) {
+            return [];
+        }
+
+        const results: JsonRpcResult[] = calls.map(call => {
+            const index = responses.findIndex(r => r.id === call.id);
+            if (index === -1) {
+                return { call, missing: true };
+            }
+
+            const [{ result, error }] = responses.splice(index, 1);
+            return { call, result, error };
+        });
+
+        return results.concat(responses.map(({ result, error }) => ({ result, error })));
+    }
+}
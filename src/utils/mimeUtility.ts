@@ -133,4 +133,12 @@ export class MimeUtility {
 
         return this.parse(contentTypeString).essence === 'application/x-ndjson';
     }
+
+    public static isEventStream(contentTypeString: string | undefined): boolean {
+        if (!contentTypeString) {
+            return false;
+        }
+
+        return this.parse(contentTypeString).essence === 'text/event-stream';
+    }
 }
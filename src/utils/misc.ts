@@ -76,3 +76,48 @@ export function isJSONString(text: string): boolean {
         return false;
     }
 }
+
+/**
+ * Returns a deep copy of the JSON value with the object keys sorted, so that the key order doesn't matter in comparison
+ */
+export function sortKeys(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(v => sortKeys(v));
+    }
+
+    if (value !== null && typeof value === 'object') {
+        const source = value as { [key: string]: unknown };
+        const sorted: { [key: string]: unknown } = {};
+        for (const key of Object.keys(source).sort()) {
+            sorted[key] = sortKeys(source[key]);
+        }
+        return sorted;
+    }
+
+    return value;
+}
+
+/**
+ * Converts the headers into string values, the values of the headers written multiple times are combined
+ */
+export function flattenHeaders(headers: RequestHeaders): { [name: string]: string } {
+    return Object.fromEntries(Object.entries(headers)
+        .filter(([, value]) => value !== undefined)
+        .map(([name, value]) => [name, Array.isArray(value) ? value.join(', ') : String(value)]));
+}
+
+/**
+ * Checks whether the HTTP version in the request line or metadata, like `2` or `HTTP/2.0`, is HTTP/2
+ */
+export function isHttp2Version(version: string | undefined): boolean {
+    return /^(?:HTTP\/)?2(?:\.0)?$/i.test(version?.trim() ?? '');
+}
+
+/**
+ * Decides whether the request is sent over HTTP/2, the `@http-version` metadata takes precedence over the version in
+ * the request line, and then the enableHttp2 setting
+ */
+export function shouldUseHttp2(metadataVersion: string | undefined, requestLineVersion: string | undefined, enableHttp2: boolean): boolean {
+    const version = metadataVersion?.trim() || requestLineVersion;
+    return version ? isHttp2Version(version) : enableHttp2;
+}
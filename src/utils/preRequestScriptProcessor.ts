@@ -0,0 +1,249 @@
+import * as crypto from 'crypto';
+import * as vm from 'vm';
+import { RequestHeaders } from '../models/base';
+import { HttpRequest } from '../models/httpRequest';
+import { PreRequestScript } from '../models/preRequestScript';
+
+type PreRequestScriptResult = {
+    request: { method: string, url: string, headers: RequestHeaders, body?: string, bodyChanged: boolean },
+    variables: { [name: string]: string },
+    logs: string[]
+};
+
+export class PreRequestScriptProcessor {
+    private static readonly timeoutInMilliseconds = 5000;
+
+    /**
+     * Creates the objects available to the script inside the context from the JSON input, the host operations are
+     * called through the bridge kept in the closure. Returns the function which serializes the changes made by the script
+     */
+    private static readonly bootstrapScript = `(function (bridge, input) {
+        'use strict';
+        const { parse, stringify } = JSON;
+        const toText = value => typeof value === 'string' ? value : stringify(value) ?? String(value);
+        const call = (...args) => {
+            // the errors of the host aren't caught with binding, since they would expose the host objects
+            let message;
+            try {
+                message = String(bridge(stringify(args)));
+            } catch {
+                throw new Error('Failed to call ' + args[0] + '.');
+            }
+            const result = parse(message);
+            if ('error' in result) {
+                throw new Error(result.error);
+            }
+            return result.value;
+        };
+
+        class Buffer {
+            constructor(hex) {
+                this.hex = hex;
+            }
+            get length() {
+                return this.hex.length / 2;
+            }
+            toString(encoding = 'utf8') {
+                return call('encode', this.hex, encoding);
+            }
+            toJSON() {
+                return { type: 'Buffer', data: Array.from({ length: this.length }, (_, i) => parseInt(this.hex.substr(i * 2, 2), 16)) };
+            }
+            equals(other) {
+                return other instanceof Buffer && other.hex === this.hex;
+            }
+            static from(value, encoding = 'utf8') {
+                if (value instanceof Buffer) {
+                    return new Buffer(value.hex);
+                }
+                if (Array.isArray(value)) {
+                    return new Buffer(value.map(b => (b & 255).toString(16).padStart(2, '0')).join(''));
+                }
+                return new Buffer(call('decode', String(value), encoding));
+            }
+            static concat(buffers) {
+                return new Buffer(buffers.map(b => Buffer.from(b).hex).join(''));
+            }
+            static isBuffer(value) {
+                return value instanceof Buffer;
+            }
+            static byteLength(value, encoding = 'utf8') {
+                return Buffer.from(value, encoding).length;
+            }
+        }
+
+        const toHex = (data, encoding) => Buffer.from(data, encoding).hex;
+        const createDigest = (operation, algorithm, key) => {
+            const parts = [];
+            const digest = {
+                update(data, encoding) {
+                    parts.push(toHex(data, encoding));
+                    return digest;
+                },
+                digest(encoding) {
+                    const hex = operation === 'hash'
+                        ? call('hash', String(algorithm), parts.join(''))
+                        : call('hmac', String(algorithm), key, parts.join(''));
+                    return encoding === undefined ? new Buffer(hex) : call('encode', hex, encoding);
+                }
+            };
+            return digest;
+        };
+
+        const { request, variables } = parse(input);
+        const originalBody = request.body;
+        const changedVariables = {};
+        const logs = [];
+        const write = (...args) => logs.push(args.map(toText).join(' '));
+
+        globalThis.request = request;
+        globalThis.variables = {
+            get: name => variables[name],
+            set: (name, value) => {
+                variables[name] = changedVariables[name] = toText(value);
+            }
+        };
+        globalThis.crypto = {
+            createHash: algorithm => createDigest('hash', algorithm),
+            createHmac: (algorithm, key) => createDigest('hmac', algorithm, toHex(key)),
+            randomBytes: size => new Buffer(call('random', size))
+        };
+        globalThis.Buffer = Buffer;
+        globalThis.console = { log: write, info: write, warn: write, error: write };
+
+        return () => {
+            const bodyChanged = request.body !== originalBody;
+            return stringify({
+                request: {
+                    method: String(request.method),
+                    url: String(request.url),
+                    headers: request.headers,
+                    body: bodyChanged && request.body !== undefined && request.body !== null ? toText(request.body) : undefined,
+                    bodyChanged
+                },
+                variables: changedVariables,
+                logs
+            });
+        };
+    })`;
+
+    private static readonly variableReferenceRegex: RegExp = /\bvariables\.get\(\s*(['"`])(.+?)\1\s*\)/;
+
+    /**
+     * Finds the names of the variables the script reads, which must be string literals so that they can be resolved in advance
+     */
+    public static getReferencedVariables(scriptText: string): string[] {
+        const names = new Set<string>();
+        const regex = new RegExp(this.variableReferenceRegex, 'g');
+        let match: RegExpExecArray | null;
+        while (match = regex.exec(scriptText)) {
+            names.add(match[2]);
+        }
+        return [...names];
+    }
+
+    /**
+     * Runs the script in a separate context without access to modules, file system or process, and applies its
+     * changes of the method, url, headers and body to the http request. Variables set by the script are passed to setVariable.
+     * Only strings cross the boundary of the context, since any object or function of the extension host would expose its
+     * Function constructor, and with it the process, to the script
+     */
+    public static run(
+        script: PreRequestScript,
+        httpRequest: HttpRequest,
+        setVariable: (name: string, value: string) => void,
+        log: (message: string) => void = () => {}) {
+        const originalBody = typeof httpRequest.body === 'string' ? httpRequest.body : undefined;
+        const input = JSON.stringify({
+            request: { method: httpRequest.method, url: httpRequest.url, headers: httpRequest.headers, body: originalBody },
+            variables: Object.fromEntries(script.variables)
+        });
+
+        // the sandbox has no prototype, so that the global of the context doesn't resolve constructor to the host one,
+        // and the promise jobs queued by the script run right after it within the timeout instead of on the host queue
+        const sandbox = Object.create(null);
+        const context = vm.createContext(sandbox, { microtaskMode: 'afterEvaluate' });
+        const options = { filename: 'pre-request-script', timeout: this.timeoutInMilliseconds };
+        const collect: () => string = vm.runInContext(this.bootstrapScript, context)((message: string) => this.callHost(message), input);
+        Object.defineProperty(sandbox, '__collectPreRequestScriptResult', { value: collect });
+
+        let scriptError: unknown;
+        try {
+            vm.runInContext(script.text, context, options);
+        } catch (error) {
+            scriptError = error;
+        }
+
+        let result: PreRequestScriptResult | undefined;
+        try {
+            result = JSON.parse(vm.runInContext('__collectPreRequestScriptResult()', context, options));
+        } catch (error) {
+            scriptError = scriptError ?? error;
+        }
+
+        result?.logs.forEach(message => log(message));
+        if (scriptError !== undefined || !result) {
+            throw new Error(`Failed to run pre-request script: ${(scriptError as Error)?.message ?? scriptError}`);
+        }
+
+        for (const [name, value] of Object.entries(result.variables)) {
+            script.variables.set(name, value);
+            setVariable(name, value);
+        }
+
+        const { request } = result;
+        httpRequest.method = request.method.toUpperCase();
+        httpRequest.url = request.url;
+        httpRequest.headers = request.headers;
+        if (request.bodyChanged) {
+            httpRequest.body = request.body;
+            httpRequest.rawBody = request.body;
+        }
+    }
+
+    /**
+     * Operations of crypto and Buffer performed on behalf of the script, whose arguments and results are JSON encoded
+     * strings and binary data is encoded in hex
+     */
+    private static callHost(message: string): string {
+        try {
+            if (typeof message !== 'string') {
+                throw new Error('Invalid message.');
+            }
+
+            const [operation, ...args] = JSON.parse(message) as [string, ...any[]];
+            const encoding = (name: unknown) => {
+                if (typeof name !== 'string' || !Buffer.isEncoding(name)) {
+                    throw new Error(`Unknown encoding: ${name}`);
+                }
+                return name;
+            };
+            const bytes = (hex: unknown) => Buffer.from(String(hex), 'hex');
+
+            let value: string;
+            switch (operation) {
+                case 'decode':
+                    value = Buffer.from(String(args[0]), encoding(args[1])).toString('hex');
+                    break;
+                case 'encode':
+                    value = bytes(args[0]).toString(encoding(args[1]));
+                    break;
+                case 'hash':
+                    value = crypto.createHash(String(args[0])).update(bytes(args[1])).digest('hex');
+                    break;
+                case 'hmac':
+                    value = crypto.createHmac(String(args[0]), bytes(args[1])).update(bytes(args[2])).digest('hex');
+                    break;
+                case 'random':
+                    value = crypto.randomBytes(Number(args[0])).toString('hex');
+                    break;
+                default:
+                    throw new Error(`Unknown operation: ${operation}`);
+            }
+
+            return JSON.stringify({ value });
+        } catch (error) {
+            return JSON.stringify({ error: String(error?.message ?? error) });
+        }
+    }
+}
@@ -0,0 +1,114 @@
+import * as Constants from '../common/constants';
+import { RequestMetadata } from '../models/requestMetadata';
+import { RequestTextSelector } from './requestTextSelector';
+
+export interface RequestDependency {
+    name: string;
+    range: [number, number];
+}
+
+interface NamedRequest extends RequestDependency {
+    text: string;
+}
+
+/**
+ * Finds the named requests that a request references through request variables, either directly
+ * or via file variables, and sorts them in the order they should be sent
+ */
+export class RequestDependencyResolver {
+    private static readonly requestVariableReferenceRegex = /\{{2}\s*(\w+)\.(?:request|response)\b/;
+
+    private static readonly variableReferenceRegex = /\{{2}\s*([^\s{}]+)\s*\}{2}/;
+
+    private readonly namedRequests = new Map<string, NamedRequest>();
+
+    private readonly fileVariables = new Map<string, string>();
+
+    public constructor(fileContent: string) {
+        const lines = fileContent.split(Constants.LineSplitterRegex);
+        for (const range of RequestTextSelector.getRequestRanges(lines)) {
+            const text = RequestTextSelector.getDelimitedText(fileContent, range[0]);
+            if (text === null) {
+                continue;
+            }
+
+            const name = RequestTextSelector.parseReqMetadatas(text.split(Constants.LineSplitterRegex)).get(RequestMetadata.Name);
+            if (name && !this.namedRequests.has(name)) {
+                this.namedRequests.set(name, { name, range, text });
+            }
+        }
+
+        for (const line of lines) {
+            const matched = line.match(Constants.FileVariableDefinitionRegex);
+            if (matched) {
+                this.fileVariables.set(matched[1], matched[2]);
+            }
+        }
+    }
+
+    /**
+     * Returns the named requests the given request depends on, with each dependency placed after its own dependencies.
+     * Requests for which isSent returns true are treated as already sent, so neither they nor their dependencies are returned.
+     * A request referencing its own response isn't a dependency of itself. Throws if there is a circular dependency among
+     * the different requests which haven't been sent
+     */
+    public resolve(requestText: string, isSent: (name: string) => boolean = () => false): RequestDependency[] {
+        const rootName = RequestTextSelector.parseReqMetadatas(requestText.split(Constants.LineSplitterRegex)).get(RequestMetadata.Name);
+        const path: string[] = [rootName ?? 'current request'];
+        const visited = new Set<string>();
+        const dependencies: RequestDependency[] = [];
+
+        const visit = (text: string, owner: string | undefined) => {
+            for (const name of this.getReferencedRequests(text)) {
+                // a request referencing its own earlier response, like paging through the results, uses the cached one
+                // if any, otherwise it's sent with the reference unresolved
+                if (name === owner || visited.has(name) || isSent(name)) {
+                    continue;
+                }
+
+                if (name === rootName || path.includes(name)) {
+                    throw new Error(`Circular request dependency is detected: ${[...path, name].join(' -> ')}`);
+                }
+
+                const request = this.namedRequests.get(name)!;
+                path.push(name);
+                visit(request.text, name);
+                path.pop();
+
+                visited.add(name);
+                dependencies.push({ name, range: request.range });
+            }
+        };
+
+        visit(requestText, rootName);
+        return dependencies;
+    }
+
+    private getReferencedRequests(text: string): string[] {
+        const names = new Set<string>();
+        const visitedFileVariables = new Set<string>();
+        const collect = (content: string) => {
+            const requestVariableReferenceRegex = new RegExp(RequestDependencyResolver.requestVariableReferenceRegex, 'g');
+            let match: RegExpExecArray | null;
+            while (match = requestVariableReferenceRegex.exec(content)) {
+                if (this.namedRequests.has(match[1])) {
+                    names.add(match[1]);
+                }
+            }
+
+            // request variables can also be referenced through file variables
+            const variableReferenceRegex = new RegExp(RequestDependencyResolver.variableReferenceRegex, 'g');
+            while (match = variableReferenceRegex.exec(content)) {
+                const name = match[1];
+                const value = this.fileVariables.get(name);
+                if (value !== undefined && !visitedFileVariables.has(name)) {
+                    visitedFileVariables.add(name);
+                    collect(value);
+                }
+            }
+        };
+
+        collect(text);
+        return [...names];
+    }
+}
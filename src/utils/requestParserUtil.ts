@@ -1,9 +1,7 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { Uri } from 'vscode';
 import { RequestHeaders } from "../models/base";
 import { removeHeader } from './misc';
-import { getCurrentTextDocument, getWorkspaceRootPath } from './workspaceUtility';
 
 export function parseRequestHeaders(headerLines: string[], defaultHeaders: RequestHeaders, url: string): RequestHeaders {
     // message-header = field-name ":" [ field-value ]
@@ -38,26 +36,19 @@ export function parseRequestHeaders(headerLines: string[], defaultHeaders: Reque
     return { ...defaultHeaders, ...headers };
 }
 
-export async function resolveRequestBodyPath(refPath: string): Promise<string | undefined> {
+export async function resolveRequestBodyPath(refPath: string, searchFolders: (string | undefined)[]): Promise<string | undefined> {
     if (path.isAbsolute(refPath)) {
         return (await fs.pathExists(refPath)) ? refPath : undefined;
     }
 
-    const workspaceRoot = getWorkspaceRootPath();
-    if (workspaceRoot) {
-        const absolutePath = path.join(Uri.parse(workspaceRoot).fsPath, refPath);
-        if (await fs.pathExists(absolutePath)) {
-            return absolutePath;
-        }
-    }
-
-    const currentFile = getCurrentTextDocument()?.fileName;
-    if (currentFile) {
-        const absolutePath = path.join(path.dirname(currentFile), refPath);
-        if (await fs.pathExists(absolutePath)) {
-            return absolutePath;
+    for (const folder of searchFolders) {
+        if (folder) {
+            const absolutePath = path.join(folder, refPath);
+            if (await fs.pathExists(absolutePath)) {
+                return absolutePath;
+            }
         }
     }
 
     return undefined;
-}
\ No newline at end of file
+}
@@ -0,0 +1,43 @@
+import { HttpRequestSettings } from '../models/configurationSettings';
+import { HttpRequest } from '../models/httpRequest';
+import { RequestHost } from '../models/requestHost';
+import { RequestMetadata } from '../models/requestMetadata';
+import { RequestParserFactory } from '../models/requestParserFactory';
+import { SelectedRequest } from '../models/SelectedRequest';
+import { PreRequestScriptProcessor } from './preRequestScriptProcessor';
+import { ResponseSnapshotProcessor } from './responseSnapshotProcessor';
+
+/**
+ * Parses the selected request into the http request to send, applies its metadata and runs its pre-request script,
+ * so that a request is sent the same way from the editor, the test runners and the command line. The index of the data row
+ * is given when the request is sent once per row of its `@data` file
+ */
+export async function prepareRequest(
+    { text, metadatas, assertions, preRequestScript }: SelectedRequest,
+    settings: HttpRequestSettings,
+    host: RequestHost,
+    dataRowIndex?: number): Promise<HttpRequest> {
+    const httpRequest = await RequestParserFactory.createRequestParser(text, settings, host).parseHttpRequest(metadatas.get(RequestMetadata.Name));
+    httpRequest.assertions = assertions;
+    httpRequest.streamResponse = metadatas.has(RequestMetadata.Stream);
+    httpRequest.socketPath = metadatas.get(RequestMetadata.Socket) || undefined;
+    httpRequest.httpVersionMetadata = metadatas.get(RequestMetadata.HttpVersion);
+    if (metadatas.has(RequestMetadata.Snapshot)) {
+        const httpFilePath = host.getHttpFilePath();
+        if (httpFilePath) {
+            httpRequest.snapshot = ResponseSnapshotProcessor.create(httpFilePath, httpRequest, metadatas.get(RequestMetadata.Snapshot), dataRowIndex);
+        } else {
+            host.showWarning('Snapshot is ignored since the request file is not saved.');
+        }
+    }
+
+    if (preRequestScript) {
+        PreRequestScriptProcessor.run(
+            preRequestScript,
+            httpRequest,
+            (name, value) => host.setFileVariable(name, value),
+            message => host.log(message));
+    }
+
+    return httpRequest;
+}
@@ -1,6 +1,7 @@
 import { EOL } from 'os';
 import { StatusBarAlignment, StatusBarItem, window } from 'vscode';
 import { HttpResponse } from '../models/httpResponse';
+import { ResponseAssertionProcessor } from './responseAssertionProcessor';
 
 const filesize = require('filesize');
 
@@ -28,20 +29,32 @@ export class RequestStatusEntry {
 
     private readonly sizeEntry: StatusBarItem;
 
+    private readonly assertionEntry: StatusBarItem;
+
+    private readonly jsonRpcEntry: StatusBarItem;
+
     public constructor() {
         this.durationEntry = window.createStatusBarItem('duration', StatusBarAlignment.Left);
         this.durationEntry.name = 'Response Timing';
         this.sizeEntry = window.createStatusBarItem('size', StatusBarAlignment.Left);
         this.sizeEntry.name = 'Response Size';
+        this.assertionEntry = window.createStatusBarItem('assertion', StatusBarAlignment.Left);
+        this.assertionEntry.name = 'Response Assertions';
+        this.jsonRpcEntry = window.createStatusBarItem('jsonrpc', StatusBarAlignment.Left);
+        this.jsonRpcEntry.name = 'JSON-RPC Errors';
     }
 
     public dispose() {
         this.durationEntry.dispose();
         this.sizeEntry.dispose();
+        this.assertionEntry.dispose();
+        this.jsonRpcEntry.dispose();
     }
 
     public update(status: RequestStatus) {
         this.sizeEntry.hide();
+        this.assertionEntry.hide();
+        this.jsonRpcEntry.hide();
 
         switch (status.state) {
             case RequestState.Closed:
@@ -71,6 +84,8 @@ export class RequestStatusEntry {
 
                 this.showDurationEntry(`$(clock) ${response.timingPhases.total ?? 0}ms`, tooltip);
                 this.showSizeEntry(response);
+                this.showAssertionEntry(response);
+                this.showJsonRpcEntry(response);
                 break;
         }
     }
@@ -85,6 +100,40 @@ export class RequestStatusEntry {
         this.sizeEntry.show();
     }
 
+    private showAssertionEntry(response: HttpResponse) {
+        const results = response.assertionResults;
+        if (results.length === 0) {
+            return;
+        }
+
+        const { passed, failed } = ResponseAssertionProcessor.summarize(results);
+        this.assertionEntry.text = failed === 0
+            ? `$(pass) ${passed}/${results.length} passed`
+            : `$(error) ${failed}/${results.length} failed`;
+        this.assertionEntry.tooltip = [
+            'Response Assertions:',
+            ...results.map(r => `${r.passed ? '✓' : '✗'} ${r.assertion.text}${r.message ? ` (${r.message})` : ''}`)
+        ].join(EOL);
+        this.assertionEntry.show();
+    }
+
+    private showJsonRpcEntry(response: HttpResponse) {
+        const failures = response.jsonRpcResults.filter(r => r.error || r.missing);
+        if (failures.length === 0) {
+            return;
+        }
+
+        this.jsonRpcEntry.text = `$(error) ${failures.length}/${response.jsonRpcResults.length} JSON-RPC ${failures.length === 1 ? 'error' : 'errors'}`;
+        this.jsonRpcEntry.tooltip = [
+            'JSON-RPC Errors:',
+            ...failures.map(({ call, error, missing }) => {
+                const source = call ? `${call.method} (id: ${JSON.stringify(call.id)})` : 'Unknown call';
+                return missing ? `${source}: no response is received` : `${source}: ${error!.code} ${error!.message}`;
+            })
+        ].join(EOL);
+        this.jsonRpcEntry.show();
+    }
+
     private showDurationEntry(text: string, tooltip?: string, command?: string) {
         this.durationEntry.text = text;
         this.durationEntry.tooltip = tooltip;
@@ -0,0 +1,312 @@
+import { EOL } from 'os';
+import * as Constants from '../common/constants';
+import { PreRequestScript } from '../models/preRequestScript';
+import { fromString as ParseReqMetaKey, RequestMetadata } from '../models/requestMetadata';
+import { SelectedRequest } from '../models/SelectedRequest';
+import { PreRequestScriptProcessor } from './preRequestScriptProcessor';
+import { ResponseAssertionProcessor } from './responseAssertionProcessor';
+
+export interface RequestRangeOptions {
+    ignoreCommentLine?: boolean;
+    ignoreEmptyLine?: boolean;
+    ignoreFileVariableDefinitionLine?: boolean;
+    ignoreResponseRange?: boolean;
+}
+
+export interface PromptVariableDefinition {
+    name: string;
+    description?: string;
+}
+
+/**
+ * Locates and parses requests in the text of http files, without depending on the editor
+ */
+export class RequestTextSelector {
+    private static readonly responseStatusLineRegex = /^\s*HTTP\/[\d.]+/;
+
+    /**
+     * Parses the metadata, request text and response assertions from the text of a single request,
+     * with variables resolved by the given resolver
+     */
+    public static async parseRequestText(requestText: string, resolveVariables: (text: string) => Promise<string>): Promise<SelectedRequest | null> {
+        // convert request text into lines, and split out the response handler and pre-request script blocks
+        const { requestLines, handlerLines } = this.parseResponseHandler(requestText.split(Constants.LineSplitterRegex));
+        const { requestLines: lines, scriptLines } = this.parsePreRequestScript(requestLines);
+
+        // parse request metadata
+        const metadatas = this.parseReqMetadatas(lines);
+
+        // parse actual request lines
+        const rawLines = lines.filter(l => !this.isCommentLine(l));
+        const requestRange = this.getRequestRanges(rawLines)[0];
+        if (!requestRange) {
+            return null;
+        }
+
+        // variables replacement
+        const text = await resolveVariables(rawLines.slice(requestRange[0], requestRange[1] + 1).join(EOL));
+
+        // parse response assertions
+        const handlerText = await resolveVariables(handlerLines.join(EOL));
+        const assertions = ResponseAssertionProcessor.parse(handlerText.split(Constants.LineSplitterRegex));
+
+        // resolve the variables referenced in pre-request script
+        let preRequestScript: PreRequestScript | undefined;
+        if (scriptLines.length > 0) {
+            const scriptText = scriptLines.join(EOL);
+            const variables = new Map<string, string>();
+            for (const name of PreRequestScriptProcessor.getReferencedVariables(scriptText)) {
+                const reference = `{{${name}}}`;
+                const value = await resolveVariables(reference);
+                if (value !== reference) {
+                    variables.set(name, value);
+                }
+            }
+            preRequestScript = { text: scriptText, variables };
+        }
+
+        return { text, metadatas, assertions, preRequestScript };
+    }
+
+    public static parseResponseHandler(lines: string[]): { requestLines: string[], handlerLines: string[] } {
+        const requestLines: string[] = [];
+        const handlerLines: string[] = [];
+        let inHandler = false;
+        for (const line of lines) {
+            let content: string;
+            if (inHandler) {
+                content = line;
+            } else {
+                const matched = line.match(Constants.ResponseHandlerStartRegex);
+                if (!matched) {
+                    requestLines.push(line);
+                    continue;
+                }
+
+                inHandler = true;
+                content = matched[1];
+            }
+
+            const ended = content.match(Constants.ResponseHandlerEndRegex);
+            if (ended) {
+                inHandler = false;
+                content = ended[1];
+            }
+
+            if (content.trim()) {
+                handlerLines.push(content);
+            }
+        }
+
+        return { requestLines, handlerLines };
+    }
+
+    /**
+     * Splits out the pre-request script block, which starts with `< {%` and ends with `%}`, before the request line
+     */
+    public static parsePreRequestScript(lines: string[]): { requestLines: string[], scriptLines: string[] } {
+        const requestLines: string[] = [];
+        const scriptLines: string[] = [];
+        let inScript = false;
+        let requestLineFound = false;
+        for (const line of lines) {
+            let content: string;
+            if (inScript) {
+                content = line;
+            } else {
+                const matched = requestLineFound ? null : line.match(Constants.PreRequestScriptStartRegex);
+                if (!matched) {
+                    requestLineFound = requestLineFound
+                        || !(this.isEmptyLine(line) || this.isCommentLine(line) || this.isFileVariableDefinitionLine(line));
+                    requestLines.push(line);
+                    continue;
+                }
+
+                inScript = true;
+                content = matched[1];
+            }
+
+            const ended = content.match(Constants.PreRequestScriptEndRegex);
+            if (ended) {
+                inScript = false;
+                content = ended[1];
+            }
+
+            scriptLines.push(content);
+        }
+
+        return { requestLines, scriptLines };
+    }
+
+    public static parseReqMetadatas(lines: string[]): Map<RequestMetadata, string | undefined> {
+        const metadatas = new Map<RequestMetadata, string | undefined>();
+        for (const line of lines) {
+            if (this.isEmptyLine(line) || this.isFileVariableDefinitionLine(line)) {
+                continue;
+            }
+
+            if (!this.isCommentLine(line)) {
+                // find the first request line
+                break;
+            }
+
+            // here must be a comment line
+            const matched = line.match(Constants.RequestMetadataRegex);
+            if (!matched) {
+                continue;
+            }
+
+            const metaKey = matched[1];
+            const metaValue = matched[2];
+            const metadata = ParseReqMetaKey(metaKey);
+            if (metadata) {
+                if (metadata === RequestMetadata.Prompt) {
+                    this.handlePromptMetadata(metadatas, line);
+                } else {
+                    metadatas.set(metadata, metaValue || undefined);
+                }
+            }
+        }
+        return metadatas;
+    }
+
+    public static getRequestRanges(lines: string[], options?: RequestRangeOptions): [number, number][] {
+        options = {
+            ignoreCommentLine: true,
+            ignoreEmptyLine: true,
+            ignoreFileVariableDefinitionLine: true,
+            ignoreResponseRange: true,
+            ...options
+        };
+        const requestRanges: [number, number][] = [];
+        const delimitedLines = this.getDelimiterRows(lines);
+        delimitedLines.push(lines.length);
+
+        let prev = -1;
+        for (const current of delimitedLines) {
+            let start = prev + 1;
+            let end = current - 1;
+            while (start <= end) {
+                const startLine = lines[start];
+                if (options.ignoreResponseRange && this.isResponseStatusLine(startLine)) {
+                    break;
+                }
+
+                if (options.ignoreCommentLine && this.isCommentLine(startLine)
+                    || options.ignoreEmptyLine && this.isEmptyLine(startLine)
+                    || options.ignoreFileVariableDefinitionLine && this.isFileVariableDefinitionLine(startLine)) {
+                    start++;
+                    continue;
+                }
+
+                const endLine = lines[end];
+                if (options.ignoreCommentLine && this.isCommentLine(endLine)
+                    || options.ignoreEmptyLine && this.isEmptyLine(endLine)) {
+                    end--;
+                    continue;
+                }
+
+                requestRanges.push([start, end]);
+                break;
+            }
+            prev = current;
+        }
+
+        return requestRanges;
+    }
+
+    public static isCommentLine(line: string): boolean {
+        return Constants.CommentIdentifiersRegex.test(line);
+    }
+
+    public static isEmptyLine(line: string): boolean {
+        return line.trim() === '';
+    }
+
+    public static isRequestVariableDefinitionLine(line: string): boolean {
+        return Constants.RequestVariableDefinitionRegex.test(line);
+    }
+
+    public static isFileVariableDefinitionLine(line: string): boolean {
+        return Constants.FileVariableDefinitionRegex.test(line);
+    }
+
+    public static isResponseStatusLine(line: string): boolean {
+        return this.responseStatusLineRegex.test(line);
+    }
+
+    public static getRequestVariableDefinitionName(text: string): string | undefined {
+        const matched = text.match(Constants.RequestVariableDefinitionRegex);
+        return matched?.[1];
+    }
+
+    public static getPrompVariableDefinition(text: string): PromptVariableDefinition | undefined {
+        const matched = text.match(Constants.PromptCommentRegex);
+        if (matched) {
+            const name = matched[1];
+            const description = matched[2];
+            return { name, description };
+        }
+    }
+
+    public static parsePromptMetadataForVariableDefinitions(text: string | undefined) : PromptVariableDefinition[] {
+        const varDefs : PromptVariableDefinition[] = [];
+        const parsedDefs = JSON.parse(text || "[]");
+        if (Array.isArray(parsedDefs)) {
+            for (const parsedDef of parsedDefs) {
+                varDefs.push({
+                    name: parsedDef['name'],
+                    description: parsedDef['description']
+                });
+            }
+        }
+
+        return varDefs;
+    }
+
+    public static getDelimitedText(fullText: string, currentLine: number): string | null {
+        const lines: string[] = fullText.split(Constants.LineSplitterRegex);
+        const delimiterLineNumbers: number[] = this.getDelimiterRows(lines);
+        if (delimiterLineNumbers.length === 0) {
+            return fullText;
+        }
+
+        // return null if cursor is in delimiter line
+        if (delimiterLineNumbers.includes(currentLine)) {
+            return null;
+        }
+
+        if (currentLine < delimiterLineNumbers[0]) {
+            return lines.slice(0, delimiterLineNumbers[0]).join(EOL);
+        }
+
+        if (currentLine > delimiterLineNumbers[delimiterLineNumbers.length - 1]) {
+            return lines.slice(delimiterLineNumbers[delimiterLineNumbers.length - 1] + 1).join(EOL);
+        }
+
+        for (let index = 0; index < delimiterLineNumbers.length - 1; index++) {
+            const start = delimiterLineNumbers[index];
+            const end = delimiterLineNumbers[index + 1];
+            if (start < currentLine && currentLine < end) {
+                return lines.slice(start + 1, end).join(EOL);
+            }
+        }
+
+        return null;
+    }
+
+    protected static getDelimiterRows(lines: string[]): number[] {
+        return Object.entries(lines)
+            .filter(([, value]) => /^#{3,}/.test(value))
+            .map(([index, ]) => +index);
+    }
+
+    private static handlePromptMetadata(metadatas: Map<RequestMetadata, string | undefined> , text: string) {
+        const promptVarDef = this.getPrompVariableDefinition(text);
+        if (promptVarDef) {
+            const varDefs = this.parsePromptMetadataForVariableDefinitions(metadatas.get(RequestMetadata.Prompt));
+            varDefs.push(promptVarDef);
+            metadatas.set(RequestMetadata.Prompt, JSON.stringify(varDefs));
+        }
+    }
+}
@@ -11,7 +11,7 @@ const { JSONPath } = require('jsonpath-plus');
 const requestVariablePathRegex: RegExp = /^(\w+)(?:\.(request|response)(?:\.(body|headers)(?:\.(.*))?)?)?$/;
 
 type HttpEntity = 'request' | 'response';
-type HttpPart = 'headers' | 'body';
+export type HttpPart = 'headers' | 'body';
 
 export class RequestVariableCacheValueProcessor {
     public static resolveRequestVariable(value: HttpResponse | undefined, path: string): ResolveResult {
@@ -40,7 +40,7 @@ export class RequestVariableCacheValueProcessor {
         return this.resolveHttpPart(httpEntity, httpPart as HttpPart, nameOrPath);
     }
 
-    private static resolveHttpPart(http: HttpRequest | HttpResponse, httpPart: HttpPart, nameOrPath?: string): ResolveResult {
+    public static resolveHttpPart(http: HttpRequest | HttpResponse, httpPart: HttpPart, nameOrPath?: string): ResolveResult {
         if (httpPart === "body") {
             const forceJsonExtension = 'asJson.';
             const forceXmlExtension = 'asXml.';
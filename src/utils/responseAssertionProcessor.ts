@@ -0,0 +1,131 @@
+import { HttpResponse } from '../models/httpResponse';
+import { ResolveState } from '../models/httpVariableResolveResult';
+import { AssertionOperator, AssertionResult, fromString as ParseAssertionOperator, ResponseAssertion } from '../models/responseAssertion';
+import { HttpPart, RequestVariableCacheValueProcessor } from './requestVariableCacheValueProcessor';
+
+export class ResponseAssertionProcessor {
+    private static readonly assertionRegex: RegExp = /^(\S+)\s+(==|!=|<=|>=|<|>|!?contains|matches|!?exists)(?:\s+(.*?))?\s*$/i;
+
+    private static readonly commentRegex: RegExp = /^\s*(#|\/{2})/;
+
+    public static parse(lines: string[]): ResponseAssertion[] {
+        const assertions: ResponseAssertion[] = [];
+        for (const line of lines) {
+            const text = line.trim();
+            if (!text || this.commentRegex.test(text)) {
+                continue;
+            }
+
+            const matched = text.match(this.assertionRegex);
+            const operator = matched && ParseAssertionOperator(matched[2]);
+            if (!matched || !operator) {
+                throw new Error(`Invalid assertion "${text}", it should follow format "<status|duration|headers.<name>|body.<path>> <operator> [expected]"`);
+            }
+
+            const [, subject, , expected] = matched;
+            assertions.push({ text, subject, operator, expected: this.unquote(expected) });
+        }
+
+        return assertions;
+    }
+
+    public static evaluate(response: HttpResponse, assertions: ResponseAssertion[]): AssertionResult[] {
+        return assertions.map(assertion => this.evaluateAssertion(response, assertion));
+    }
+
+    public static summarize(results: AssertionResult[]): { passed: number, failed: number } {
+        const passed = results.filter(r => r.passed).length;
+        return { passed, failed: results.length - passed };
+    }
+
+    private static evaluateAssertion(response: HttpResponse, assertion: ResponseAssertion): AssertionResult {
+        const { operator, expected } = assertion;
+        const { value: actual, message } = this.resolveSubject(response, assertion.subject);
+        if (operator === AssertionOperator.Exists || operator === AssertionOperator.NotExists) {
+            const exists = actual !== undefined;
+            return { assertion, actual, passed: operator === AssertionOperator.Exists ? exists : !exists };
+        }
+
+        if (actual === undefined) {
+            return { assertion, passed: false, message: message || `No value is resolved for "${assertion.subject}"` };
+        }
+
+        try {
+            const passed = this.compare(actual, operator, expected ?? '');
+            return {
+                assertion,
+                actual,
+                passed,
+                message: passed ? undefined : `Expected ${assertion.subject} ${operator} ${expected ?? ''}, but got ${actual}`
+            };
+        } catch (error) {
+            return { assertion, actual, passed: false, message: error.message };
+        }
+    }
+
+    private static resolveSubject(response: HttpResponse, subject: string): { value?: string, message?: string } {
+        if (subject === 'status') {
+            return { value: response.statusCode.toString() };
+        }
+
+        if (subject === 'duration') {
+            return { value: (response.timingPhases.total ?? 0).toString() };
+        }
+
+        const [part, ...rest] = subject.split('.');
+        if (part !== 'headers' && part !== 'body') {
+            return { message: `Unknown assertion subject "${subject}"` };
+        }
+
+        let nameOrPath = rest.join('.');
+        if (!nameOrPath) {
+            if (part === 'headers') {
+                return { message: 'Header name should be provided right after "headers"' };
+            }
+
+            // Compare against the whole body regardless of the content-type
+            nameOrPath = '*';
+        }
+
+        const result = RequestVariableCacheValueProcessor.resolveHttpPart(response, part as HttpPart, nameOrPath);
+        if (result.state === ResolveState.Success) {
+            return { value: typeof result.value === 'string' ? result.value : JSON.stringify(result.value) };
+        }
+
+        return { message: result.message };
+    }
+
+    private static compare(actual: string, operator: AssertionOperator, expected: string): boolean {
+        switch (operator) {
+            case AssertionOperator.Equal:
+                return this.isNumeric(actual, expected) ? +actual === +expected : actual === expected;
+            case AssertionOperator.NotEqual:
+                return this.isNumeric(actual, expected) ? +actual !== +expected : actual !== expected;
+            case AssertionOperator.Contains:
+                return actual.includes(expected);
+            case AssertionOperator.NotContains:
+                return !actual.includes(expected);
+            case AssertionOperator.Matches:
+                return new RegExp(expected).test(actual);
+            default:
+                if (!this.isNumeric(actual, expected)) {
+                    throw new Error(`Operator "${operator}" can only be applied to numbers, but got ${actual} and ${expected}`);
+                }
+
+                const [left, right] = [+actual, +expected];
+                return operator === AssertionOperator.LessThan ? left < right
+                    : operator === AssertionOperator.LessThanOrEqual ? left <= right
+                    : operator === AssertionOperator.GreaterThan ? left > right
+                    : left >= right;
+        }
+    }
+
+    private static isNumeric(...values: string[]): boolean {
+        return values.every(v => v.trim() !== '' && !isNaN(Number(v)));
+    }
+
+    private static unquote(value: string | undefined): string | undefined {
+        const matched = value?.match(/^(["'])(.*)\1$/);
+        return matched ? matched[2] : value;
+    }
+}
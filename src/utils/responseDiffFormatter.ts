@@ -0,0 +1,73 @@
+import { EOL } from 'os';
+import { ResponseHeaders } from '../models/base';
+import { HttpResponse } from '../models/httpResponse';
+import { MimeUtility } from './mimeUtility';
+import { formatHeaders, getContentType, isJSONString, sortKeys } from './misc';
+import { ResponseFormatUtility } from './responseFormatUtility';
+
+export interface ParsedBaseline {
+    statusLine?: string;
+
+    headers?: ResponseHeaders;
+
+    body: string;
+}
+
+/**
+ * Formats responses into text for comparison, where headers are sorted by name and
+ * JSON bodies are pretty-printed with sorted keys, so that the ordering doesn't show up as differences
+ */
+export class ResponseDiffFormatter {
+    private static readonly statusLineRegex = /^HTTP\/[\d.]+\s+\d{3}\b/;
+
+    public static formatResponse(response: HttpResponse, includeHeaders: boolean = true): string {
+        const statusLine = `HTTP/${response.httpVersion} ${response.statusCode} ${response.statusMessage}`;
+        return this.format({ statusLine, headers: includeHeaders ? response.headers : undefined, body: response.body });
+    }
+
+    /**
+     * Parses the content of a baseline file, which is either a full response saved by `Save Full Response`, or a response body only
+     */
+    public static parseBaseline(content: string): ParsedBaseline {
+        const lines = content.split(/\r?\n/);
+        if (!this.statusLineRegex.test(lines[0])) {
+            return { body: content };
+        }
+
+        const headers: ResponseHeaders = {};
+        let index = 1;
+        for (; index < lines.length && lines[index].trim() !== ''; index++) {
+            const separator = lines[index].indexOf(':');
+            if (separator > 0) {
+                const name = lines[index].substring(0, separator).trim();
+                const value = lines[index].substring(separator + 1).trim();
+                const existing = headers[name];
+                headers[name] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [String(existing)]), value];
+            }
+        }
+
+        return { statusLine: lines[0].trim(), headers, body: lines.slice(index + 1).join(EOL) };
+    }
+
+    public static format({ statusLine, headers, body }: ParsedBaseline): string {
+        if (!headers) {
+            return this.formatBody(body, undefined);
+        }
+
+        const sortedHeaders: ResponseHeaders = {};
+        for (const name of Object.keys(headers).sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase()))) {
+            sortedHeaders[name] = headers[name];
+        }
+
+        const formattedBody = this.formatBody(body, getContentType(headers));
+        return `${statusLine ? `${statusLine}${EOL}` : ''}${formatHeaders(sortedHeaders)}${formattedBody ? `${EOL}${formattedBody}` : ''}`;
+    }
+
+    private static formatBody(body: string, contentType: string | undefined): string {
+        if ((!contentType || MimeUtility.isJSON(contentType)) && body && isJSONString(body)) {
+            return JSON.stringify(sortKeys(JSON.parse(body)), null, 2).replace(/\n/g, EOL);
+        }
+
+        return contentType ? ResponseFormatUtility.formatBody(body, contentType, true) : body;
+    }
+}
@@ -0,0 +1,44 @@
+import { HttpResponse } from '../models/httpResponse';
+
+type ResponseEntry = {
+    response: HttpResponse;
+    receivedTime: number;
+};
+
+/**
+ * Keeps the recent responses of each request in memory, so that a response can be compared with earlier ones. Only the
+ * most recently sent requests are kept, whose order is the insertion order of the map
+ */
+export class ResponseHistory {
+    private static readonly maxResponsesPerRequest = 10;
+
+    private static readonly maxRequests = 50;
+
+    private static readonly entries = new Map<string, ResponseEntry[]>();
+
+    public static add(response: HttpResponse, receivedTime: number = Date.now()) {
+        const key = this.getKey(response);
+        const entries = this.entries.get(key) ?? [];
+        entries.unshift({ response, receivedTime });
+        this.entries.delete(key);
+        this.entries.set(key, entries.slice(0, this.maxResponsesPerRequest));
+
+        // the least recently sent request is evicted
+        if (this.entries.size > this.maxRequests) {
+            this.entries.delete(this.entries.keys().next().value!);
+        }
+    }
+
+    /**
+     * Returns the responses of the same request received before the given response, the latest first
+     */
+    public static getPrevious(response: HttpResponse): ResponseEntry[] {
+        const entries = this.entries.get(this.getKey(response)) ?? [];
+        const index = entries.findIndex(e => e.response === response);
+        return entries.slice(index + 1);
+    }
+
+    private static getKey({ request }: HttpResponse): string {
+        return `${request.method} ${request.url}`;
+    }
+}
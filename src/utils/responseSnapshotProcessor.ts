@@ -0,0 +1,144 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { HttpRequest } from '../models/httpRequest';
+import { HttpResponse } from '../models/httpResponse';
+import { AssertionOperator, AssertionResult, ResponseAssertion } from '../models/responseAssertion';
+import { ResponseSnapshot } from '../models/responseSnapshot';
+import { MimeUtility } from './mimeUtility';
+import { isJSONString, sortKeys } from './misc';
+
+const { JSONPath } = require('jsonpath-plus');
+
+/**
+ * Saves the normalized response of a request into the `__snapshots__` folder next to the http file the first time,
+ * and compares the later responses against the saved one
+ */
+export class ResponseSnapshotProcessor {
+    private static readonly directoryName = '__snapshots__';
+
+    private static readonly ignoredValue = '<ignored>';
+
+    /**
+     * Creates the snapshot of a request from the value of the `@snapshot` metadata, which is a comma separated list of
+     * the ignored JSONPaths, the commas inside brackets, parentheses and quotes belong to the paths. The snapshot file is named after the request name, or the method and URL for unnamed requests,
+     * and the request sent once per data row gets a snapshot file for each row
+     */
+    public static create(httpFilePath: string, request: HttpRequest, metadataValue: string | undefined, dataRowIndex?: number): ResponseSnapshot {
+        const name = (request.name ?? `${request.method} ${request.url.replace(/^\w+:\/\/[^/]*/, '')}`)
+            .replace(/[^\w.-]+/g, '-')
+            .replace(/^-+|-+$/g, '')
+            .substring(0, 100);
+        const row = dataRowIndex === undefined ? '' : `.row-${dataRowIndex + 1}`;
+        return {
+            filePath: path.join(path.dirname(httpFilePath), this.directoryName, `${path.basename(httpFilePath)}.${name}${row}.snap`),
+            ignoredPaths: this.splitPaths(metadataValue ?? '')
+        };
+    }
+
+    /**
+     * Compares the response against the snapshot, the snapshot file is written instead if it doesn't exist or update is true.
+     * The result is returned as an assertion result so that it's reported along with the response assertions
+     */
+    public static async check(response: HttpResponse, snapshot: ResponseSnapshot, update: boolean = false): Promise<AssertionResult> {
+        const assertion: ResponseAssertion = {
+            text: `snapshot ${path.basename(snapshot.filePath)}`,
+            subject: 'snapshot',
+            operator: AssertionOperator.Equal
+        };
+
+        try {
+            const actual = this.normalize(response, snapshot.ignoredPaths);
+            if (update || !(await fs.pathExists(snapshot.filePath))) {
+                await fs.outputFile(snapshot.filePath, `${actual}\n`);
+                return { assertion, actual, passed: true, message: `Snapshot is written to ${snapshot.filePath}` };
+            }
+
+            const expected = assertion.expected = (await fs.readFile(snapshot.filePath, 'utf8')).replace(/\r\n/g, '\n').trimEnd();
+            if (expected === actual) {
+                return { assertion, actual, passed: true };
+            }
+
+            const expectedLines = expected.split('\n');
+            const actualLines = actual.split('\n');
+            const line = actualLines.findIndex((l, index) => l !== expectedLines[index]);
+            return {
+                assertion,
+                actual,
+                passed: false,
+                message: `Response doesn't match the snapshot ${snapshot.filePath}, the first difference is at line ${(line === -1 ? actualLines.length : line) + 1}`
+            };
+        } catch (error) {
+            return { assertion, passed: false, message: `Failed to check the snapshot. ${error.message}` };
+        }
+    }
+
+    /**
+     * Normalizes the response into the status line, content type and body. The JSON body is pretty-printed with
+     * sorted keys, and the values of the ignored fields are replaced with a placeholder
+     */
+    public static normalize(response: HttpResponse, ignoredPaths: string[]): string {
+        const { statusCode, statusMessage, contentType } = response;
+        let body = response.body;
+        if ((!contentType || MimeUtility.isJSON(contentType)) && body && isJSONString(body)) {
+            const json = JSON.parse(body);
+            for (const ignoredPath of ignoredPaths) {
+                if (!ignoredPath.startsWith('$') || this.splitPaths(ignoredPath, true).length !== 1) {
+                    throw new Error(`Invalid JSONPath ${ignoredPath} in the @snapshot metadata.`);
+                }
+
+                for (const { parent, parentProperty } of JSONPath({ path: ignoredPath, json, resultType: 'all', wrap: true })) {
+                    if (parent !== null && typeof parent === 'object') {
+                        parent[parentProperty] = this.ignoredValue;
+                    }
+                }
+            }
+            body = JSON.stringify(sortKeys(json), null, 2);
+        }
+
+        const lines = [`${statusCode} ${statusMessage}`.trimEnd()];
+        if (contentType) {
+            lines.push(`Content-Type: ${contentType}`);
+        }
+
+        return `${lines.join('\n')}\n\n${body.replace(/\r\n/g, '\n')}`.trimEnd();
+    }
+
+    /**
+     * Splits the JSONPaths at the commas outside of brackets, parentheses and quotes. In strict mode, an empty list is
+     * returned if the brackets, parentheses or quotes aren't balanced
+     */
+    private static splitPaths(value: string, strict: boolean = false): string[] {
+        const paths: string[] = [];
+        const closings: string[] = [];
+        let quote: string | undefined;
+        let start = 0;
+        for (let index = 0; index < value.length; index++) {
+            const char = value[index];
+            if (quote) {
+                if (char === '\\') {
+                    index++;
+                } else if (char === quote) {
+                    quote = undefined;
+                }
+            } else if (char === '\'' || char === '"') {
+                quote = char;
+            } else if (char === '[' || char === '(') {
+                closings.push(char === '[' ? ']' : ')');
+            } else if (char === ']' || char === ')') {
+                if (closings.pop() !== char && strict) {
+                    return [];
+                }
+            } else if (char === ',' && closings.length === 0) {
+                paths.push(value.substring(start, index));
+                start = index + 1;
+            }
+        }
+
+        if (strict && (quote || closings.length > 0)) {
+            return [];
+        }
+
+        paths.push(value.substring(start));
+        return paths.map(p => p.trim()).filter(p => p);
+    }
+}
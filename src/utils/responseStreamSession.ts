@@ -0,0 +1,94 @@
+import { EventEmitter } from 'vscode';
+import { HttpRequest } from '../models/httpRequest';
+import { StreamingMessage, StreamingMessageType, StreamingSession } from '../models/streamingSession';
+import { EventStreamParser, ServerSentEvent } from './eventStreamParser';
+import { MimeUtility } from './mimeUtility';
+
+/**
+ * Streams the body of a response as it arrives, each server-sent event becomes a message for `text/event-stream`
+ * responses, and each received chunk for other responses
+ */
+export class ResponseStreamSession implements StreamingSession {
+    private readonly _onDidAddMessage = new EventEmitter<StreamingMessage>();
+
+    private readonly _onDidClose = new EventEmitter<void>();
+
+    private readonly eventStreamParser?: EventStreamParser;
+
+    private _isOpen = true;
+
+    public readonly messages: StreamingMessage[] = [];
+
+    public get title(): string {
+        return this.request.name ?? `${this.request.method} ${this.request.url}`;
+    }
+
+    public get isOpen(): boolean {
+        return this._isOpen;
+    }
+
+    public get onDidAddMessage() {
+        return this._onDidAddMessage.event;
+    }
+
+    public get onDidClose() {
+        return this._onDidClose.event;
+    }
+
+    public constructor(private readonly request: HttpRequest, statusCode: number, statusMessage: string, contentType: string | undefined) {
+        if (MimeUtility.isEventStream(contentType)) {
+            this.eventStreamParser = new EventStreamParser();
+        }
+
+        this.addMessage(StreamingMessageType.Info, `${statusCode} ${statusMessage}${contentType ? `, Content-Type: ${contentType}` : ''}`);
+    }
+
+    public write(chunk: string) {
+        if (!this.eventStreamParser) {
+            this.addMessage(StreamingMessageType.Received, chunk);
+            return;
+        }
+
+        for (const event of this.eventStreamParser.push(chunk)) {
+            this.addEvent(event);
+        }
+    }
+
+    /**
+     * Marks the stream as ended with the reason, like the response is completed or failed
+     */
+    public end(reason: string, type: StreamingMessageType = StreamingMessageType.Info) {
+        if (!this._isOpen) {
+            return;
+        }
+
+        this._isOpen = false;
+        for (const event of this.eventStreamParser?.flush() ?? []) {
+            this.addEvent(event);
+        }
+        this.addMessage(type, reason);
+        this._onDidClose.fire();
+    }
+
+    public close() {
+        if (this._isOpen) {
+            this.request.cancel();
+            this.end('Stream is stopped');
+        }
+    }
+
+    private addEvent({ id, event, data, retry }: ServerSentEvent) {
+        const label = [
+            `event: ${event || 'message'}`,
+            id !== undefined ? `id: ${id}` : '',
+            retry !== undefined ? `retry: ${retry}` : ''
+        ].filter(l => l).join(', ');
+        this.addMessage(StreamingMessageType.Received, data, label);
+    }
+
+    private addMessage(type: StreamingMessageType, data: string, label?: string) {
+        const message = { type, data, label, timestamp: Date.now() };
+        this.messages.push(message);
+        this._onDidAddMessage.fire(message);
+    }
+}
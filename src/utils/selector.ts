@@ -1,26 +1,23 @@
-import { EOL } from 'os';
 import { Position, Range, TextDocument, TextEditor, window } from 'vscode';
 import * as Constants from '../common/constants';
-import { fromString as ParseReqMetaKey, RequestMetadata } from '../models/requestMetadata';
+import { RequestMetadata } from '../models/requestMetadata';
 import { SelectedRequest } from '../models/SelectedRequest';
+import { PromptVariableDefinition, RequestTextSelector } from './requestTextSelector';
 import { VariableProcessor } from './variableProcessor';
+import { getCurrentTextDocument } from './workspaceUtility';
 
-export interface RequestRangeOptions {
-    ignoreCommentLine?: boolean;
-    ignoreEmptyLine?: boolean;
-    ignoreFileVariableDefinitionLine?: boolean;
-    ignoreResponseRange?: boolean;
-}
+export class Selector extends RequestTextSelector {
 
-interface PromptVariableDefinition {
-    name: string;
-    description?: string;
-}
+    public static async getRequest(editor: TextEditor, range: Range | null = null): Promise<SelectedRequest | null> {
+        const selectedText = this.getSelectedText(editor, range);
+        if (selectedText === null) {
+            return null;
+        }
 
-export class Selector {
-    private static readonly responseStatusLineRegex = /^\s*HTTP\/[\d.]+/;
+        return this.getRequestFromText(selectedText, editor.document);
+    }
 
-    public static async getRequest(editor: TextEditor, range: Range | null = null): Promise<SelectedRequest | null> {
+    public static getSelectedText(editor: TextEditor, range: Range | null = null): string | null {
         if (!editor.document) {
             return null;
         }
@@ -45,202 +42,40 @@ export class Selector {
             selectedText = editor.document.getText(editor.selection);
         }
 
-        if (selectedText === null) {
-            return null;
-        }
-
-        // convert request text into lines
-        const lines = selectedText.split(Constants.LineSplitterRegex);
+        return selectedText;
+    }
 
-        // parse request metadata
-        const metadatas = this.parseReqMetadatas(lines);
+    public static async getRequestFromText(selectedText: string, document: TextDocument | undefined = getCurrentTextDocument()): Promise<SelectedRequest | null> {
+        const requests = await this.getRequestsFromText(selectedText, [new Map<string, string>()], document);
+        return requests && requests[0];
+    }
 
+    /**
+     * Parses the request once for each of the given variable sets, the prompt variables are only asked for once
+     */
+    public static async getRequestsFromText(
+        selectedText: string,
+        variableSets: Map<string, string>[],
+        document: TextDocument | undefined = getCurrentTextDocument()): Promise<SelectedRequest[] | null> {
         // process #@prompt comment metadata
+        const metadatas = this.parseReqMetadatas(selectedText.split(Constants.LineSplitterRegex));
         const promptVariablesDefinitions = this.parsePromptMetadataForVariableDefinitions(metadatas.get(RequestMetadata.Prompt));
         const promptVariables = await this.promptForInput(promptVariablesDefinitions);
         if (!promptVariables) {
             return null;
         }
 
-        // parse actual request lines
-        const rawLines = lines.filter(l => !this.isCommentLine(l));
-        const requestRange = this.getRequestRanges(rawLines)[0];
-        if (!requestRange) {
-            return null;
-        }
-
-        selectedText = rawLines.slice(requestRange[0], requestRange[1] + 1).join(EOL);
-
-        // variables replacement
-        selectedText = await VariableProcessor.processRawRequest(selectedText, promptVariables);
-
-        return {
-            text: selectedText,
-            metadatas: metadatas
-        };
-    }
-
-    public static parseReqMetadatas(lines: string[]): Map<RequestMetadata, string | undefined> {
-        const metadatas = new Map<RequestMetadata, string | undefined>();
-        for (const line of lines) {
-            if (this.isEmptyLine(line) || this.isFileVariableDefinitionLine(line)) {
-                continue;
-            }
-
-            if (!this.isCommentLine(line)) {
-                // find the first request line
-                break;
-            }
-
-            // here must be a comment line
-            const matched = line.match(Constants.RequestMetadataRegex);
-            if (!matched) {
-                continue;
-            }
-
-            const metaKey = matched[1];
-            const metaValue = matched[2];
-            const metadata = ParseReqMetaKey(metaKey);
-            if (metadata) {
-                if (metadata === RequestMetadata.Prompt) {
-                    this.handlePromptMetadata(metadatas, line);
-                } else {
-                    metadatas.set(metadata, metaValue || undefined);
-                }
-            }
-        }
-        return metadatas;
-    }
-
-    public static getRequestRanges(lines: string[], options?: RequestRangeOptions): [number, number][] {
-        options = {
-            ignoreCommentLine: true,
-            ignoreEmptyLine: true,
-            ignoreFileVariableDefinitionLine: true,
-            ignoreResponseRange: true,
-            ...options
-        };
-        const requestRanges: [number, number][] = [];
-        const delimitedLines = this.getDelimiterRows(lines);
-        delimitedLines.push(lines.length);
-
-        let prev = -1;
-        for (const current of delimitedLines) {
-            let start = prev + 1;
-            let end = current - 1;
-            while (start <= end) {
-                const startLine = lines[start];
-                if (options.ignoreResponseRange && this.isResponseStatusLine(startLine)) {
-                    break;
-                }
-
-                if (options.ignoreCommentLine && this.isCommentLine(startLine)
-                    || options.ignoreEmptyLine && this.isEmptyLine(startLine)
-                    || options.ignoreFileVariableDefinitionLine && this.isFileVariableDefinitionLine(startLine)) {
-                    start++;
-                    continue;
-                }
-
-                const endLine = lines[end];
-                if (options.ignoreCommentLine && this.isCommentLine(endLine)
-                    || options.ignoreEmptyLine && this.isEmptyLine(endLine)) {
-                    end--;
-                    continue;
-                }
-
-                requestRanges.push([start, end]);
-                break;
-            }
-            prev = current;
-        }
-
-        return requestRanges;
-    }
-
-    public static isCommentLine(line: string): boolean {
-        return Constants.CommentIdentifiersRegex.test(line);
-    }
-
-    public static isEmptyLine(line: string): boolean {
-        return line.trim() === '';
-    }
-
-    public static isRequestVariableDefinitionLine(line: string): boolean {
-        return Constants.RequestVariableDefinitionRegex.test(line);
-    }
-
-    public static isFileVariableDefinitionLine(line: string): boolean {
-        return Constants.FileVariableDefinitionRegex.test(line);
-    }
-
-    public static isResponseStatusLine(line: string): boolean {
-        return this.responseStatusLineRegex.test(line);
-    }
-
-    public static getRequestVariableDefinitionName(text: string): string | undefined {
-        const matched = text.match(Constants.RequestVariableDefinitionRegex);
-        return matched?.[1];
-    }
-
-    public static getPrompVariableDefinition(text: string): PromptVariableDefinition | undefined {
-        const matched = text.match(Constants.PromptCommentRegex);
-        if (matched) {
-            const name = matched[1];
-            const description = matched[2];
-            return { name, description };
-        }
-    }
-
-    public static parsePromptMetadataForVariableDefinitions(text: string | undefined) : PromptVariableDefinition[] {
-        const varDefs : PromptVariableDefinition[] = [];
-        const parsedDefs = JSON.parse(text || "[]");
-        if (Array.isArray(parsedDefs)) {
-            for (const parsedDef of parsedDefs) {
-                varDefs.push({
-                    name: parsedDef['name'],
-                    description: parsedDef['description']
-                });
-            }
-        }
-
-        return varDefs;
-    }
-
-    public static getDelimitedText(fullText: string, currentLine: number): string | null {
-        const lines: string[] = fullText.split(Constants.LineSplitterRegex);
-        const delimiterLineNumbers: number[] = this.getDelimiterRows(lines);
-        if (delimiterLineNumbers.length === 0) {
-            return fullText;
-        }
-
-        // return null if cursor is in delimiter line
-        if (delimiterLineNumbers.includes(currentLine)) {
-            return null;
-        }
-
-        if (currentLine < delimiterLineNumbers[0]) {
-            return lines.slice(0, delimiterLineNumbers[0]).join(EOL);
-        }
-
-        if (currentLine > delimiterLineNumbers[delimiterLineNumbers.length - 1]) {
-            return lines.slice(delimiterLineNumbers[delimiterLineNumbers.length - 1] + 1).join(EOL);
-        }
-
-        for (let index = 0; index < delimiterLineNumbers.length - 1; index++) {
-            const start = delimiterLineNumbers[index];
-            const end = delimiterLineNumbers[index + 1];
-            if (start < currentLine && currentLine < end) {
-                return lines.slice(start + 1, end).join(EOL);
+        const requests: SelectedRequest[] = [];
+        for (const variables of variableSets) {
+            const resolvedVariables = new Map<string, string>([...variables, ...promptVariables]);
+            const request = await this.parseRequestText(selectedText, text => VariableProcessor.processRawRequest(text, resolvedVariables, document));
+            if (!request) {
+                return null;
             }
+            requests.push(request);
         }
 
-        return null;
-    }
-
-    private static getDelimiterRows(lines: string[]): number[] {
-        return Object.entries(lines)
-            .filter(([, value]) => /^#{3,}/.test(value))
-            .map(([index, ]) => +index);
+        return requests;
     }
 
     public static* getMarkdownRestSnippets(document: TextDocument): Generator<Range> {
@@ -268,15 +103,6 @@ export class Selector {
         }
     }
 
-    private static handlePromptMetadata(metadatas: Map<RequestMetadata, string | undefined> , text: string) {
-        const promptVarDef = this.getPrompVariableDefinition(text);
-        if (promptVarDef) {
-            const varDefs = this.parsePromptMetadataForVariableDefinitions(metadatas.get(RequestMetadata.Prompt));
-            varDefs.push(promptVarDef);
-            metadatas.set(RequestMetadata.Prompt, JSON.stringify(varDefs));
-        }
-    }
-
     private static async promptForInput(defs: PromptVariableDefinition[]): Promise<Map<string, string> | null> {
         const promptVariables = new Map<string, string>();
         for (const { name, description } of defs) {
@@ -299,5 +125,4 @@ export class Selector {
         }
         return promptVariables;
     }
-
 }
\ No newline at end of file
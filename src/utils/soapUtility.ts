@@ -0,0 +1,84 @@
+import { MimeUtility } from './mimeUtility';
+
+const { DOMParser, XMLSerializer } = require('xmldom');
+
+const Soap11EnvelopeNamespace = 'http://schemas.xmlsoap.org/soap/envelope/';
+const Soap12EnvelopeNamespace = 'http://www.w3.org/2003/05/soap-envelope';
+
+export interface SoapFault {
+    code: string;
+    reason: string;
+    actor?: string;
+    detail?: string;
+}
+
+export class SoapUtility {
+    /**
+     * Extracts the fault from the body of SOAP 1.1 and SOAP 1.2 responses, returns undefined if the response isn't a SOAP fault
+     */
+    public static parseFault(body: string, contentType: string | undefined): SoapFault | undefined {
+        if (!MimeUtility.isXml(contentType) || !body.includes('Fault')) {
+            return undefined;
+        }
+
+        let document: any;
+        try {
+            document = new DOMParser({ errorHandler: () => undefined }).parseFromString(body, 'text/xml');
+        } catch {
+            return undefined;
+        }
+
+        const envelope = document?.documentElement;
+        const namespace = envelope?.namespaceURI;
+        if (envelope?.localName !== 'Envelope' || (namespace !== Soap11EnvelopeNamespace && namespace !== Soap12EnvelopeNamespace)) {
+            return undefined;
+        }
+
+        const soapBody = this.child(envelope, namespace, 'Body');
+        const fault = soapBody && this.child(soapBody, namespace, 'Fault');
+        if (!fault) {
+            return undefined;
+        }
+
+        if (namespace === Soap11EnvelopeNamespace) {
+            // the children of SOAP 1.1 fault are unqualified
+            return {
+                code: this.text(this.child(fault, null, 'faultcode')),
+                reason: this.text(this.child(fault, null, 'faultstring')),
+                actor: this.text(this.child(fault, null, 'faultactor')) || undefined,
+                detail: this.serialize(this.child(fault, null, 'detail'))
+            };
+        }
+
+        // the subcodes of SOAP 1.2 fault are nested, which are joined from the most generic one
+        const codes: string[] = [];
+        for (let code = this.child(fault, namespace, 'Code'); code; code = this.child(code, namespace, 'Subcode')) {
+            codes.push(this.text(this.child(code, namespace, 'Value')));
+        }
+        return {
+            code: codes.join(' / '),
+            reason: this.text(this.child(this.child(fault, namespace, 'Reason'), namespace, 'Text')),
+            actor: this.text(this.child(fault, namespace, 'Role')) || undefined,
+            detail: this.serialize(this.child(fault, namespace, 'Detail'))
+        };
+    }
+
+    private static child(node: any, namespace: string | null, localName: string): any {
+        return node && Array.from<any>(node.childNodes)
+            .find(c => c.nodeType === 1 && c.localName === localName && (c.namespaceURI || null) === namespace);
+    }
+
+    private static text(node: any): string {
+        return node?.textContent.trim() ?? '';
+    }
+
+    private static serialize(node: any): string | undefined {
+        if (!node) {
+            return undefined;
+        }
+
+        const serializer = new XMLSerializer();
+        const detail = Array.from<any>(node.childNodes).map(c => serializer.serializeToString(c)).join('').trim();
+        return detail || undefined;
+    }
+}
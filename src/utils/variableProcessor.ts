@@ -1,22 +1,23 @@
 import { TextDocument } from 'vscode';
 import { VariableType } from "../models/variableType";
-import { EnvironmentVariableProvider } from './httpVariableProviders/environmentVariableProvider';
-import { FileVariableProvider } from './httpVariableProviders/fileVariableProvider';
 import { HttpVariableProvider } from './httpVariableProviders/httpVariableProvider';
-import { RequestVariableProvider } from './httpVariableProviders/requestVariableProvider';
-import { SystemVariableProvider } from './httpVariableProviders/systemVariableProvider';
-import { getCurrentTextDocument } from './workspaceUtility';
 
 export class VariableProcessor {
 
-    private static readonly providers: [HttpVariableProvider, boolean][] = [
-        [SystemVariableProvider.Instance, false],
-        [RequestVariableProvider.Instance, true],
-        [FileVariableProvider.Instance, true],
-        [EnvironmentVariableProvider.Instance, true],
-    ];
+    private static providers: [HttpVariableProvider, boolean][] = [];
 
-    public static async processRawRequest(request: string, resolvedVariables: Map<string, string> = new Map<string, string>()) {
+    /**
+     * Registers the variable providers in the order of precedence, along with whether their resolved values
+     * can be cached during processing a single request
+     */
+    public static registerProviders(providers: [HttpVariableProvider, boolean][]) {
+        this.providers = providers;
+    }
+
+    public static async processRawRequest(
+        request: string,
+        resolvedVariables: Map<string, string> = new Map<string, string>(),
+        document?: TextDocument) {
         const variableReferenceRegex = /\{{2}(.+?)\}{2}/g;
         let result = '';
         let match: RegExpExecArray | null;
@@ -26,7 +27,6 @@ export class VariableProcessor {
             result += request.substring(lastIndex, match.index);
             lastIndex = variableReferenceRegex.lastIndex;
             const name = match[1].trim();
-            const document = getCurrentTextDocument();
             const context = { rawRequest: request, parsedRequest: result };
             for (const [provider, cacheable] of this.providers) {
                 if (resolvedVariables.has(name)) {
@@ -54,40 +54,22 @@ export class VariableProcessor {
     }
 
     public static async getAllVariablesDefinitions(document: TextDocument): Promise<Map<string, VariableType[]>> {
-        const [, [requestProvider], [fileProvider], [environmentProvider]] = this.providers;
-        const requestVariables = await (requestProvider as RequestVariableProvider).getAll(document);
-        const fileVariables = await (fileProvider as FileVariableProvider).getAll(document);
-        const environmentVariables = await (environmentProvider as EnvironmentVariableProvider).getAll();
-
         const variableDefinitions = new Map<string, VariableType[]>();
-
-        // Request variables in file
-        requestVariables.forEach(({ name }) => {
-            if (variableDefinitions.has(name)) {
-                variableDefinitions.get(name)!.push(VariableType.Request);
-            } else {
-                variableDefinitions.set(name, [VariableType.Request]);
+        for (const [provider] of this.providers) {
+            if (provider.type === VariableType.System) {
+                continue;
             }
-        });
 
-        // Normal file variables
-        fileVariables.forEach(({ name }) => {
-            if (variableDefinitions.has(name)) {
-                variableDefinitions.get(name)!.push(VariableType.File);
-            } else {
-                variableDefinitions.set(name, [VariableType.File]);
-            }
-        });
-
-        // Environment variables
-        environmentVariables.forEach(({ name }) => {
-            if (variableDefinitions.has(name)) {
-                variableDefinitions.get(name)!.push(VariableType.Environment);
-            } else {
-                variableDefinitions.set(name, [VariableType.Environment]);
-            }
-        });
+            const variables = await provider.getAll(document);
+            variables.forEach(({ name }) => {
+                if (variableDefinitions.has(name)) {
+                    variableDefinitions.get(name)!.push(provider.type);
+                } else {
+                    variableDefinitions.set(name, [provider.type]);
+                }
+            });
+        }
 
         return variableDefinitions;
     }
-}
\ No newline at end of file
+}
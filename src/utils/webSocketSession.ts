@@ -0,0 +1,129 @@
+import { EOL } from 'os';
+import { EventEmitter } from 'vscode';
+import { HttpRequest } from '../models/httpRequest';
+import { StreamingMessage, StreamingMessageType, StreamingSession } from '../models/streamingSession';
+import { flattenHeaders, getHeader, removeHeader } from './misc';
+
+import WebSocket = require('ws');
+
+/**
+ * Connects to the WebSocket server of a `WEBSOCKET ws://...` request, the request headers are sent in the handshake
+ * and the request body contains the messages to send once connected, separated by lines of `===`
+ */
+export class WebSocketSession implements StreamingSession {
+    private static readonly messageDelimiterRegex = /^\s*={3,}\s*$/;
+
+    private readonly _onDidAddMessage = new EventEmitter<StreamingMessage>();
+
+    private readonly _onDidClose = new EventEmitter<void>();
+
+    private socket?: WebSocket;
+
+    public readonly messages: StreamingMessage[] = [];
+
+    public get title(): string {
+        return this.request.name ?? this.request.url;
+    }
+
+    public get isOpen(): boolean {
+        return this.socket?.readyState === WebSocket.OPEN;
+    }
+
+    public get onDidAddMessage() {
+        return this._onDidAddMessage.event;
+    }
+
+    public get onDidClose() {
+        return this._onDidClose.event;
+    }
+
+    public constructor(
+        private readonly request: HttpRequest,
+        private readonly resolveVariables: (text: string) => Promise<string>) {
+    }
+
+    public static parseMessages(body: string | undefined): string[] {
+        const messages: string[][] = [[]];
+        for (const line of (body ?? '').split(/\r?\n/)) {
+            if (this.messageDelimiterRegex.test(line)) {
+                messages.push([]);
+            } else {
+                messages[messages.length - 1].push(line);
+            }
+        }
+
+        return messages.map(lines => lines.join(EOL).trim()).filter(m => m);
+    }
+
+    /**
+     * Opens the connection and sends the initial messages, rejects if the handshake fails
+     */
+    public async connect(initialMessages: string[], handshakeTimeout?: number): Promise<void> {
+        const headers = { ...this.request.headers };
+        const protocols = getHeader(headers, 'Sec-WebSocket-Protocol')?.toString().split(',').map(p => p.trim());
+        removeHeader(headers, 'Sec-WebSocket-Protocol');
+
+        this.addMessage(StreamingMessageType.Info, `Connecting to ${this.request.url}`);
+        await new Promise<void>((resolve, reject) => {
+            const socket = this.socket = new WebSocket(this.request.url, protocols, {
+                headers: flattenHeaders(headers),
+                handshakeTimeout: handshakeTimeout || undefined,
+                rejectUnauthorized: false
+            });
+
+            socket.on('open', () => {
+                this.addMessage(StreamingMessageType.Info, `Connected${socket.protocol ? ` with protocol ${socket.protocol}` : ''}`);
+                resolve();
+            });
+
+            socket.on('error', (error: Error) => {
+                this.addMessage(StreamingMessageType.Error, error.message);
+                reject(error);
+            });
+
+            socket.on('message', (data: string | Buffer) => {
+                this.addMessage(StreamingMessageType.Received, typeof data === 'string' ? data : `<binary ${data.length} bytes> ${data.toString('base64')}`);
+            });
+
+            socket.on('close', (code: number, reason: string) => {
+                this.addMessage(StreamingMessageType.Info, `Disconnected with code ${code}${reason ? `: ${reason}` : ''}`);
+                this._onDidClose.fire();
+                reject(new Error('Connection is closed before it is established.'));
+            });
+        });
+
+        for (const message of initialMessages) {
+            this.sendRaw(message);
+        }
+    }
+
+    /**
+     * Sends the message after resolving the variables in it
+     */
+    public async send(text: string): Promise<void> {
+        if (!this.isOpen) {
+            throw new Error('WebSocket connection is not open.');
+        }
+
+        this.sendRaw(await this.resolveVariables(text));
+    }
+
+    public close() {
+        if (this.socket?.readyState === WebSocket.CONNECTING) {
+            this.socket.terminate();
+        } else if (this.isOpen) {
+            this.socket!.close(1000);
+        }
+    }
+
+    private sendRaw(text: string) {
+        this.socket!.send(text);
+        this.addMessage(StreamingMessageType.Sent, text);
+    }
+
+    private addMessage(type: StreamingMessageType, data: string) {
+        const message = { type, data, timestamp: Date.now() };
+        this.messages.push(message);
+        this._onDidAddMessage.fire(message);
+    }
+}
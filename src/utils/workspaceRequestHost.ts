@@ -0,0 +1,78 @@
+import * as path from 'path';
+import { TextDocument, Uri, window, workspace } from 'vscode';
+import * as Constants from '../common/constants';
+import { EnvironmentController } from '../controllers/environmentController';
+import Logger from '../logger';
+import { SystemSettings } from '../models/configurationSettings';
+import { RequestHost } from '../models/requestHost';
+import { FileVariableProvider } from './httpVariableProviders/fileVariableProvider';
+import { resolveRequestBodyPath } from './requestParserUtil';
+import { VariableProcessor } from './variableProcessor';
+import { getCurrentTextDocument, getWorkspaceRootPath } from './workspaceUtility';
+
+/**
+ * Resolves the variables and files referenced in the requests against the given http document, or the active one
+ * if it's omitted
+ */
+export class WorkspaceRequestHost implements RequestHost {
+    private static _instance: WorkspaceRequestHost;
+
+    public static get Instance(): WorkspaceRequestHost {
+        if (!this._instance) {
+            this._instance = new WorkspaceRequestHost();
+        }
+
+        return this._instance;
+    }
+
+    public constructor(private readonly document?: TextDocument) {
+    }
+
+    public resolveVariables(text: string, variables?: Map<string, string>): Promise<string> {
+        return VariableProcessor.processRawRequest(text, variables, this.document ?? getCurrentTextDocument());
+    }
+
+    public resolveFilePath(refPath: string): Promise<string | undefined> {
+        // relative paths are resolved against the workspace root first, and then the folder of current file
+        const workspaceRoot = getWorkspaceRootPath();
+        const currentFile = (this.document ?? getCurrentTextDocument())?.fileName;
+        return resolveRequestBodyPath(refPath, [
+            workspaceRoot && Uri.parse(workspaceRoot).fsPath,
+            currentFile && path.dirname(currentFile)
+        ]);
+    }
+
+    public async findProtoFiles(): Promise<string[]> {
+        const files = await workspace.findFiles('**/*.proto', '**/node_modules/**');
+        return files.map(f => f.fsPath);
+    }
+
+    public async getEnvironmentProfiles(name: string): Promise<{ [profileName: string]: any }> {
+        const { name: environmentName } = await EnvironmentController.getCurrentEnvironment();
+        const environments = SystemSettings.Instance.environmentVariables as { [key: string]: { [key: string]: any } };
+        return {
+            ...environments[Constants.SharedEnvironmentName]?.[name],
+            ...environments[environmentName]?.[name]
+        };
+    }
+
+    public getHttpFilePath(): string | undefined {
+        const document = this.document ?? getCurrentTextDocument();
+        return document && !document.isUntitled ? document.fileName : undefined;
+    }
+
+    public setFileVariable(name: string, value: string) {
+        const document = this.document ?? getCurrentTextDocument();
+        if (document) {
+            FileVariableProvider.Instance.setVariable(document, name, value);
+        }
+    }
+
+    public showWarning(message: string) {
+        window.showWarningMessage(message);
+    }
+
+    public log(message: string) {
+        Logger.info(message);
+    }
+}
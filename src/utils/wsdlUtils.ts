@@ -0,0 +1,386 @@
+const { DOMParser } = require('xmldom');
+
+const WsdlNamespace = 'http://schemas.xmlsoap.org/wsdl/';
+const Soap11BindingNamespace = 'http://schemas.xmlsoap.org/wsdl/soap/';
+const Soap12BindingNamespace = 'http://schemas.xmlsoap.org/wsdl/soap12/';
+const SchemaNamespace = 'http://www.w3.org/2001/XMLSchema';
+const Soap11EnvelopeNamespace = 'http://schemas.xmlsoap.org/soap/envelope/';
+const Soap12EnvelopeNamespace = 'http://www.w3.org/2003/05/soap-envelope';
+
+type SchemaComponent = {
+    node: any;
+    targetNamespace: string;
+    qualified: boolean;
+};
+
+type ComplexContent = {
+    attributes: string[];
+    children: string[];
+    text?: string;
+};
+
+/**
+ * Generates the SOAP requests of the operations in a WSDL 1.1 document, with the sample envelopes built from the
+ * schemas embedded in the types section
+ */
+export class WsdlUtils {
+    private definitions: any;
+
+    private components = new Map<string, SchemaComponent>();
+
+    private prefixes = new Map<string, string>();
+
+    private typeStack: string[] = [];
+
+    parseWsdl(data: string): string {
+        const document = new DOMParser({
+            errorHandler: {
+                warning: () => undefined,
+                error: (message: string) => { throw new Error(`Failed to parse the WSDL file: ${message}`); },
+                fatalError: (message: string) => { throw new Error(`Failed to parse the WSDL file: ${message}`); }
+            }
+        }).parseFromString(data, 'text/xml');
+
+        this.definitions = document.documentElement;
+        if (!this.definitions || this.definitions.localName !== 'definitions' || this.definitions.namespaceURI !== WsdlNamespace) {
+            throw new Error('The file is not a WSDL 1.1 document.');
+        }
+
+        this.indexSchemas();
+        return this.generateRestClientOutput();
+    }
+
+    private generateRestClientOutput(): string {
+        let restClientOutput = `### ${this.definitions.getAttribute('name') || 'SOAP Service'}\n`;
+        for (const service of this.children(this.definitions, WsdlNamespace, 'service')) {
+            for (const port of this.children(service, WsdlNamespace, 'port')) {
+                const binding = this.findDefinition('binding', port.getAttribute('binding'), port);
+                const address = this.children(port).find(c => this.isSoapNamespace(c.namespaceURI) && c.localName === 'address');
+                if (!binding || !address) {
+                    continue;
+                }
+
+                for (const operation of this.children(binding, WsdlNamespace, 'operation')) {
+                    restClientOutput += this.generateOperationBlock(binding, operation, port.getAttribute('name'), address.getAttribute('location'));
+                }
+            }
+        }
+
+        return restClientOutput;
+    }
+
+    private generateOperationBlock(binding: any, operation: any, portName: string, location: string): string {
+        const soapBinding = this.children(binding).find(c => this.isSoapNamespace(c.namespaceURI) && c.localName === 'binding');
+        if (!soapBinding) {
+            return '';
+        }
+
+        const isSoap12 = soapBinding.namespaceURI === Soap12BindingNamespace;
+        const soapOperation = this.children(operation, soapBinding.namespaceURI, 'operation')[0];
+        const style = soapOperation?.getAttribute('style') || soapBinding.getAttribute('style') || 'document';
+        const action = soapOperation?.getAttribute('soapAction') ?? '';
+        const name = operation.getAttribute('name');
+
+        const portType = this.findDefinition('portType', binding.getAttribute('type'), binding);
+        const abstractOperation = portType && this.children(portType, WsdlNamespace, 'operation').find(o => o.getAttribute('name') === name);
+        const documentation = abstractOperation && this.children(abstractOperation, WsdlNamespace, 'documentation')[0]?.textContent.trim();
+        const input = abstractOperation && this.children(abstractOperation, WsdlNamespace, 'input')[0];
+        const message = input && this.findDefinition('message', input.getAttribute('message'), input);
+
+        // the prefixes are collected while generating the body and headers, and declared on the envelope
+        this.prefixes = new Map<string, string>([[isSoap12 ? Soap12EnvelopeNamespace : Soap11EnvelopeNamespace, 'soap']]);
+        const bindingInput = this.children(operation, WsdlNamespace, 'input')[0];
+        const soapBody = bindingInput && this.children(bindingInput, soapBinding.namespaceURI, 'body')[0];
+        const headerLines = bindingInput ? this.generateHeaders(bindingInput, soapBinding.namespaceURI) : [];
+        const bodyLines = this.generateBody(message, soapBody, style, name);
+
+        const envelope = [
+            '<?xml version="1.0" encoding="utf-8"?>',
+            `<soap:Envelope ${Array.from(this.prefixes).map(([namespace, prefix]) => `xmlns:${prefix}="${namespace}"`).join(' ')}>`,
+            ...(headerLines.length > 0 ? ['  <soap:Header>', ...this.indent(headerLines, 2), '  </soap:Header>'] : ['  <soap:Header/>']),
+            '  <soap:Body>',
+            ...this.indent(bodyLines, 2),
+            '  </soap:Body>',
+            '</soap:Envelope>'
+        ];
+
+        let operationBlock = `\n# ${name} (${portName})${documentation ? ` - ${documentation.replace(/\s+/g, ' ')}` : ''}\n`;
+        operationBlock += `POST ${location} HTTP/1.1\n`;
+        if (isSoap12) {
+            operationBlock += `Content-Type: application/soap+xml; charset=utf-8${action ? `; action="${action}"` : ''}\n`;
+        } else {
+            operationBlock += 'Content-Type: text/xml; charset=utf-8\n';
+            operationBlock += `SOAPAction: "${action}"\n`;
+        }
+        operationBlock += `\n${envelope.join('\n')}\n`;
+        operationBlock += '\n###';
+        return operationBlock;
+    }
+
+    private generateBody(message: any, soapBody: any, style: string, operationName: string): string[] {
+        if (!message) {
+            return [];
+        }
+
+        const partNames: string[] | undefined = soapBody?.hasAttribute('parts') ? soapBody.getAttribute('parts').split(/\s+/) : undefined;
+        const parts = this.children(message, WsdlNamespace, 'part').filter(p => !partNames || partNames.includes(p.getAttribute('name')));
+
+        if (style === 'rpc') {
+            // rpc style operations are wrapped in an element named after the operation, and the parts are unqualified
+            const namespace = soapBody?.getAttribute('namespace') || this.definitions.getAttribute('targetNamespace');
+            const partLines = parts.reduce((lines: string[], part) => lines.concat(this.generatePart(part)), []);
+            return this.wrapElement(this.qualifiedName(namespace, operationName), [], partLines);
+        }
+
+        return parts.reduce((lines: string[], part) => lines.concat(this.generatePart(part)), []);
+    }
+
+    private generateHeaders(bindingInput: any, soapNamespace: string): string[] {
+        const lines: string[] = [];
+        for (const header of this.children(bindingInput, soapNamespace, 'header')) {
+            const message = this.findDefinition('message', header.getAttribute('message'), header);
+            const part = message && this.children(message, WsdlNamespace, 'part').find(p => p.getAttribute('name') === header.getAttribute('part'));
+            if (part) {
+                lines.push(...this.generatePart(part));
+            }
+        }
+
+        return lines;
+    }
+
+    private generatePart(part: any): string[] {
+        const element = part.getAttribute('element');
+        if (element) {
+            const component = this.findComponent('element', element, part);
+            return component ? this.generateElement(component.node, component, true) : [];
+        }
+
+        const { attributes, children, text } = this.generateTypeContent(part.getAttribute('type'), part);
+        return this.wrapElement(part.getAttribute('name'), attributes, children, text);
+    }
+
+    private generateElement(node: any, schema: SchemaComponent, isGlobal: boolean): string[] {
+        const ref = node.getAttribute('ref');
+        if (ref) {
+            const component = this.findComponent('element', ref, node);
+            return component ? this.generateElement(component.node, component, true) : [];
+        }
+
+        const form = node.getAttribute('form');
+        const qualified = isGlobal || (form ? form === 'qualified' : schema.qualified);
+        const name = qualified ? this.qualifiedName(schema.targetNamespace, node.getAttribute('name')) : node.getAttribute('name');
+
+        let content: ComplexContent;
+        const type = node.getAttribute('type');
+        if (type) {
+            content = this.generateTypeContent(type, node);
+        } else {
+            const complexType = this.children(node, SchemaNamespace, 'complexType')[0];
+            const simpleType = this.children(node, SchemaNamespace, 'simpleType')[0];
+            content = complexType
+                ? this.generateComplexContent(complexType, schema)
+                : { attributes: [], children: [], text: simpleType ? this.getSimpleValue(simpleType) : '?' };
+        }
+
+        const lines = this.wrapElement(name, content.attributes, content.children, content.text);
+        return node.getAttribute('minOccurs') === '0' ? ['<!--Optional:-->', ...lines] : lines;
+    }
+
+    private generateTypeContent(type: string, context: any): ComplexContent {
+        if (!type) {
+            return { attributes: [], children: [], text: '?' };
+        }
+
+        const [namespace, name] = this.resolveQName(type, context);
+        if (namespace === SchemaNamespace) {
+            return { attributes: [], children: [], text: name };
+        }
+
+        const key = `{${namespace}}${name}`;
+        const complexType = this.components.get(`complexType:${key}`);
+        if (complexType) {
+            // recursive types are only expanded once in each branch
+            if (this.typeStack.includes(key)) {
+                return { attributes: [], children: [] };
+            }
+
+            this.typeStack.push(key);
+            try {
+                return this.generateComplexContent(complexType.node, complexType);
+            } finally {
+                this.typeStack.pop();
+            }
+        }
+
+        const simpleType = this.components.get(`simpleType:${key}`);
+        return { attributes: [], children: [], text: simpleType ? this.getSimpleValue(simpleType.node) : name };
+    }
+
+    private generateComplexContent(complexType: any, schema: SchemaComponent): ComplexContent {
+        const content: ComplexContent = { attributes: [], children: [] };
+        for (const child of this.children(complexType, SchemaNamespace)) {
+            switch (child.localName) {
+                case 'complexContent':
+                case 'simpleContent':
+                    for (const derivation of this.children(child, SchemaNamespace)) {
+                        if (derivation.localName === 'extension') {
+                            const base = this.generateTypeContent(derivation.getAttribute('base'), derivation);
+                            content.attributes.push(...base.attributes);
+                            content.children.push(...base.children);
+                            content.text = base.text;
+                        }
+                        if (derivation.localName === 'extension' || derivation.localName === 'restriction') {
+                            const derived = this.generateComplexContent(derivation, schema);
+                            content.attributes.push(...derived.attributes);
+                            content.children.push(...derived.children);
+                        }
+                    }
+                    break;
+                case 'sequence':
+                case 'all':
+                case 'choice':
+                case 'group':
+                    content.children.push(...this.generateParticle(child, schema));
+                    break;
+                case 'attribute':
+                case 'attributeGroup':
+                    content.attributes.push(...this.generateAttributes(child, schema));
+                    break;
+            }
+        }
+
+        return content;
+    }
+
+    private generateParticle(particle: any, schema: SchemaComponent): string[] {
+        if (particle.localName === 'element') {
+            return this.generateElement(particle, schema, false);
+        }
+
+        if (particle.localName === 'group') {
+            const ref = particle.getAttribute('ref');
+            const group = ref ? this.findComponent('group', ref, particle) : { ...schema, node: particle };
+            return group
+                ? this.children(group.node, SchemaNamespace).reduce((lines: string[], child) => lines.concat(this.generateParticle(child, group)), [])
+                : [];
+        }
+
+        if (particle.localName === 'sequence' || particle.localName === 'all' || particle.localName === 'choice') {
+            const children = this.children(particle, SchemaNamespace).filter(c => ['element', 'group', 'sequence', 'choice', 'all'].includes(c.localName));
+            // only the first alternative of a choice is generated
+            const selected = particle.localName === 'choice' ? children.slice(0, 1) : children;
+            const lines = selected.reduce((result: string[], child) => result.concat(this.generateParticle(child, schema)), []);
+            return particle.localName === 'choice' && children.length > 1 ? ['<!--You have a choice of the next items at this level:-->', ...lines] : lines;
+        }
+
+        return [];
+    }
+
+    private generateAttributes(node: any, schema: SchemaComponent): string[] {
+        if (node.localName === 'attributeGroup') {
+            const group = this.findComponent('attributeGroup', node.getAttribute('ref'), node);
+            return group
+                ? this.children(group.node, SchemaNamespace).reduce((result: string[], child) => result.concat(this.generateAttributes(child, group)), [])
+                : [];
+        }
+
+        const name = node.getAttribute('name');
+        if (node.localName !== 'attribute' || !name || node.getAttribute('use') === 'prohibited') {
+            return [];
+        }
+
+        const type = node.getAttribute('type');
+        const simpleType = this.children(node, SchemaNamespace, 'simpleType')[0];
+        const value = type ? this.generateTypeContent(type, node).text : simpleType ? this.getSimpleValue(simpleType) : '?';
+        return [`${name}="${value ?? '?'}"`];
+    }
+
+    private getSimpleValue(simpleType: any): string {
+        const restriction = this.children(simpleType, SchemaNamespace, 'restriction')[0];
+        if (!restriction) {
+            return '?';
+        }
+
+        const enumeration = this.children(restriction, SchemaNamespace, 'enumeration')[0];
+        if (enumeration) {
+            return enumeration.getAttribute('value');
+        }
+
+        const base = restriction.getAttribute('base');
+        return base ? this.generateTypeContent(base, restriction).text ?? '?' : '?';
+    }
+
+    private wrapElement(name: string, attributes: string[], children: string[], text?: string): string[] {
+        const startTag = [name, ...attributes].join(' ');
+        if (children.length > 0) {
+            return [`<${startTag}>`, ...this.indent(children, 1), `</${name}>`];
+        }
+
+        return text === undefined ? [`<${startTag}/>`] : [`<${startTag}>${text}</${name}>`];
+    }
+
+    private qualifiedName(namespace: string, name: string): string {
+        if (!namespace) {
+            return name;
+        }
+
+        if (!this.prefixes.has(namespace)) {
+            // reuse the prefix declared in the WSDL document if it's not taken
+            const declared: string | null = this.definitions.lookupPrefix(namespace);
+            const taken = Array.from(this.prefixes.values());
+            this.prefixes.set(namespace, declared && !taken.includes(declared) ? declared : `ns${this.prefixes.size}`);
+        }
+
+        return `${this.prefixes.get(namespace)}:${name}`;
+    }
+
+    private indent(lines: string[], level: number): string[] {
+        return lines.map(l => `${'  '.repeat(level)}${l}`);
+    }
+
+    private indexSchemas() {
+        this.components.clear();
+        this.typeStack = [];
+        for (const types of this.children(this.definitions, WsdlNamespace, 'types')) {
+            for (const schema of this.children(types, SchemaNamespace, 'schema')) {
+                const targetNamespace = schema.getAttribute('targetNamespace') || '';
+                const qualified = schema.getAttribute('elementFormDefault') === 'qualified';
+                for (const child of this.children(schema, SchemaNamespace)) {
+                    const name = child.getAttribute('name');
+                    if (name) {
+                        this.components.set(`${child.localName}:{${targetNamespace}}${name}`, { node: child, targetNamespace, qualified });
+                    }
+                }
+            }
+        }
+    }
+
+    private findComponent(kind: string, qname: string | null, context: any): SchemaComponent | undefined {
+        if (!qname) {
+            return undefined;
+        }
+
+        const [namespace, name] = this.resolveQName(qname, context);
+        return this.components.get(`${kind}:{${namespace}}${name}`);
+    }
+
+    private findDefinition(kind: string, qname: string, context: any): any {
+        const [, name] = this.resolveQName(qname, context);
+        return this.children(this.definitions, WsdlNamespace, kind).find(d => d.getAttribute('name') === name);
+    }
+
+    private resolveQName(qname: string, context: any): [string, string] {
+        const index = qname.indexOf(':');
+        const prefix = index >= 0 ? qname.substring(0, index) : null;
+        return [context.lookupNamespaceURI(prefix) || '', qname.substring(index + 1)];
+    }
+
+    private isSoapNamespace(namespace: string): boolean {
+        return namespace === Soap11BindingNamespace || namespace === Soap12BindingNamespace;
+    }
+
+    private children(node: any, namespace?: string, localName?: string): any[] {
+        return Array.from<any>(node.childNodes)
+            .filter(c => c.nodeType === 1 && (!namespace || c.namespaceURI === namespace) && (!localName || c.localName === localName));
+    }
+}
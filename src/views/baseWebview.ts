@@ -38,6 +38,14 @@ export abstract class BaseWebview {
         commands.executeCommand('setContext', this.previewActiveContextKey, value);
     }
 
+    protected static escapeHtml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+    }
+
     protected abstract get viewType(): string;
 
     protected abstract get previewActiveContextKey(): string;
@@ -0,0 +1,151 @@
+import * as path from 'path';
+import { Event, EventEmitter, ExtensionContext, ViewColumn, WebviewPanel, window } from 'vscode';
+import { RequestTestResult, TestState } from '../models/httpTestResult';
+import { disposeAll } from '../utils/dispose';
+import { BaseWebview } from './baseWebview';
+
+const filesize = require('filesize');
+
+export class BatchResponseWebview extends BaseWebview {
+
+    private readonly _onDidSelectResult = new EventEmitter<RequestTestResult>();
+
+    private results: (RequestTestResult | undefined)[] = [];
+
+    protected get viewType(): string {
+        return 'rest-batch-response';
+    }
+
+    protected get previewActiveContextKey(): string {
+        return 'batchResponsePreviewFocus';
+    }
+
+    public get onDidSelectResult(): Event<RequestTestResult> {
+        return this._onDidSelectResult.event;
+    }
+
+    public constructor(context: ExtensionContext) {
+        super(context);
+    }
+
+    /**
+     * Renders the results of a batch run in file order, requests which haven't completed yet are passed as undefined.
+     * For the iterations of a data-driven request, the data row of each iteration is also listed
+     */
+    public render(fileName: string, results: (RequestTestResult | undefined)[], column: ViewColumn) {
+        let panel: WebviewPanel;
+        const title = `Results - ${path.basename(fileName)}`;
+        if (this.panels.length === 0) {
+            panel = window.createWebviewPanel(
+                this.viewType,
+                title,
+                { viewColumn: column, preserveFocus: true },
+                {
+                    enableFindWidget: true,
+                    enableScripts: true,
+                    retainContextWhenHidden: true
+                });
+
+            panel.onDidDispose(() => {
+                this.setPreviewActiveContext(false);
+                this.panels.pop();
+                this.results = [];
+                this._onDidCloseAllWebviewPanels.fire();
+            });
+
+            panel.onDidChangeViewState(({ webviewPanel }) => {
+                this.setPreviewActiveContext(webviewPanel.active);
+            });
+
+            panel.webview.onDidReceiveMessage(({ command, index }) => {
+                const result = this.results[index];
+                if (command === 'openResponse' && result?.response) {
+                    this._onDidSelectResult.fire(result);
+                }
+            });
+
+            panel.iconPath = this.iconFilePath;
+
+            this.panels.push(panel);
+        } else {
+            panel = this.panels[0];
+            panel.title = title;
+        }
+
+        this.results = results;
+        panel.webview.html = this.getHtmlForWebview(panel, fileName, results);
+
+        if (!panel.visible) {
+            panel.reveal(column, true);
+        }
+    }
+
+    public dispose() {
+        disposeAll(this.panels);
+    }
+
+    private getHtmlForWebview(panel: WebviewPanel, fileName: string, results: (RequestTestResult | undefined)[]): string {
+        const completed = results.filter(r => r !== undefined) as RequestTestResult[];
+        const count = (state: TestState) => completed.filter(r => r.state === state).length;
+        const summary = completed.length < results.length
+            ? `Running ${completed.length}/${results.length}...`
+            : `Passed: ${count(TestState.Passed)}, Failed: ${count(TestState.Failed)}, Errored: ${count(TestState.Errored)}, Skipped: ${count(TestState.Skipped)}, Total: ${results.length}`;
+        const columns = [...new Set(results.flatMap(r => Object.keys(r?.dataRow ?? {})))];
+        const columnHeaders = columns.map(c => `<th>${BatchResponseWebview.escapeHtml(c)}</th>`).join('');
+        const rows = results.map((result, index) => {
+            const dataCells = columns.map(c => `<td>${BatchResponseWebview.escapeHtml(result?.dataRow?.[c] ?? '')}</td>`).join('');
+            return this.getRowHtml(result, index, dataCells);
+        }).join('');
+
+        // Content Security Policy
+        const nonce = new Date().getTime() + '' + new Date().getMilliseconds();
+        const csp = this.getCsp(nonce);
+        return `
+    <head>
+        <link rel="stylesheet" type="text/css" href="${panel.webview.asWebviewUri(this.baseFilePath)}">
+        <link rel="stylesheet" type="text/css" href="${panel.webview.asWebviewUri(this.vscodeStyleFilePath)}">
+        <link rel="stylesheet" type="text/css" href="${panel.webview.asWebviewUri(this.customStyleFilePath)}">
+        ${csp}
+    </head>
+    <body>
+        <div class="batch-results">
+            <div class="batch-results-summary">${BatchResponseWebview.escapeHtml(fileName)}<br>${summary}</div>
+            <table>
+                <thead>
+                    <tr><th>#</th>${columnHeaders}<th>Request</th><th>Status</th><th>Time</th><th>Size</th></tr>
+                </thead>
+                <tbody>${rows}</tbody>
+            </table>
+        </div>
+        <script nonce="${nonce}">
+            (function () {
+                const vscode = acquireVsCodeApi();
+                document.querySelectorAll('tr[data-index]').forEach(function (row) {
+                    row.addEventListener('click', function () {
+                        vscode.postMessage({ command: 'openResponse', index: Number(row.getAttribute('data-index')) });
+                    });
+                });
+            }());
+        </script>
+    </body>`;
+    }
+
+    private getRowHtml(result: RequestTestResult | undefined, index: number, dataCells: string): string {
+        if (!result) {
+            return `<tr class="pending"><td>${index + 1}</td>${dataCells}<td colspan="4">Running...</td></tr>`;
+        }
+
+        const { name, method, url, response, state, duration, message } = result;
+        const request = BatchResponseWebview.escapeHtml(`${name ? `${name}: ` : ''}${method && url ? `${method} ${url}` : 'Unknown request'}`);
+        const status = response
+            ? `${response.statusCode} ${BatchResponseWebview.escapeHtml(response.statusMessage)}`
+            : BatchResponseWebview.escapeHtml(message ?? TestState[state]);
+        const size = response ? filesize(response.bodySizeInBytes + response.headersSizeInBytes) : '';
+        const attributes = response ? ` data-index="${index}" title="Click to open the response"` : '';
+        return `<tr class="${TestState[state].toLowerCase()}"${attributes}><td>${index + 1}</td>${dataCells}<td>${request}</td><td class="status">${status}</td><td>${duration}ms</td><td>${size}</td></tr>`;
+    }
+
+    private getCsp(nonce: string): string {
+        return `<meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'nonce-${nonce}'; style-src 'self' 'unsafe-inline' http: https: data: vscode-resource:;">`;
+    }
+}
@@ -0,0 +1,52 @@
+import { commands, Disposable, TextDocumentContentProvider, Uri, workspace } from 'vscode';
+import { disposeAll } from '../utils/dispose';
+
+export interface DiffContent {
+    title: string;
+
+    content: string;
+}
+
+/**
+ * Shows the formatted responses in the VS Code diff editor through read-only virtual documents
+ */
+export class HttpResponseDiffView implements TextDocumentContentProvider {
+
+    private static readonly scheme = 'rest-response-diff';
+
+    private readonly contents = new Map<string, string>();
+
+    private readonly disposables: Disposable[] = [];
+
+    private sequence = 0;
+
+    public constructor() {
+        this.disposables.push(workspace.registerTextDocumentContentProvider(HttpResponseDiffView.scheme, this));
+        this.disposables.push(workspace.onDidCloseTextDocument(document => {
+            if (document.uri.scheme === HttpResponseDiffView.scheme) {
+                this.contents.delete(document.uri.toString());
+            }
+        }));
+    }
+
+    public provideTextDocumentContent(uri: Uri): string {
+        return this.contents.get(uri.toString()) ?? '';
+    }
+
+    public async show(original: DiffContent, modified: DiffContent, title: string) {
+        const originalUri = this.createUri(original);
+        const modifiedUri = this.createUri(modified);
+        await commands.executeCommand('vscode.diff', originalUri, modifiedUri, title, { preview: false });
+    }
+
+    public dispose() {
+        disposeAll(this.disposables);
+        this.contents.clear();
+    }
+
+    private createUri({ title, content }: DiffContent): Uri {
+        const uri = Uri.from({ scheme: HttpResponseDiffView.scheme, path: `/${++this.sequence}/${title.replace(/[\\/:]/g, '-')}.http` });
+        this.contents.set(uri.toString(), content);
+        return uri;
+    }
+}
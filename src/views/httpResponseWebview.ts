@@ -1,6 +1,7 @@
 import * as fs from 'fs-extra';
 import * as os from 'os';
-import { Clipboard, commands, env, ExtensionContext, Uri, ViewColumn, WebviewPanel, window, workspace } from 'vscode';
+import * as path from 'path';
+import { Clipboard, commands, env, ExtensionContext, QuickPickItem, Uri, ViewColumn, WebviewPanel, window, workspace } from 'vscode';
 import { SystemSettings } from '../models/configurationSettings';
 import { HttpRequest } from '../models/httpRequest';
 import { HttpResponse } from '../models/httpResponse';
@@ -9,9 +10,15 @@ import { trace } from '../utils/decorator';
 import { disposeAll } from '../utils/dispose';
 import { MimeUtility } from '../utils/mimeUtility';
 import { base64, formatHeaders, getHeader, isJSONString } from '../utils/misc';
+import { ResponseAssertionProcessor } from '../utils/responseAssertionProcessor';
+import { ResponseDiffFormatter } from '../utils/responseDiffFormatter';
 import { ResponseFormatUtility } from '../utils/responseFormatUtility';
+import { ResponseHistory } from '../utils/responseHistory';
+import { SoapUtility } from '../utils/soapUtility';
 import { UserDataManager } from '../utils/userDataManager';
+import { getWorkspaceRootPath } from '../utils/workspaceUtility';
 import { BaseWebview } from './baseWebview';
+import { HttpResponseDiffView } from './httpResponseDiffView';
 
 const hljs = require('highlight.js');
 const contentDisposition = require('content-disposition');
@@ -21,6 +28,8 @@ const COPYPATH = 'Copy Path';
 
 type FoldingRange = [number, number];
 
+type CompareItem = QuickPickItem & { response?: HttpResponse };
+
 export class HttpResponseWebview extends BaseWebview {
 
     private readonly urlRegex = /(https?:\/\/[^\s"'<>\]\)\\]+)/gi;
@@ -29,6 +38,8 @@ export class HttpResponseWebview extends BaseWebview {
 
     private readonly clipboard: Clipboard = env.clipboard;
 
+    private readonly diffView = new HttpResponseDiffView();
+
     protected get viewType(): string {
         return 'rest-response';
     }
@@ -67,6 +78,7 @@ export class HttpResponseWebview extends BaseWebview {
         this.context.subscriptions.push(commands.registerCommand('rest-client.copy-response-body', this.copyBody, this));
         this.context.subscriptions.push(commands.registerCommand('rest-client.save-response', this.save, this));
         this.context.subscriptions.push(commands.registerCommand('rest-client.save-response-body', this.saveBody, this));
+        this.context.subscriptions.push(commands.registerCommand('rest-client.compare-response', this.compare, this));
     }
 
     public async render(response: HttpResponse, column: ViewColumn) {
@@ -128,6 +140,7 @@ export class HttpResponseWebview extends BaseWebview {
 
     public dispose() {
         disposeAll(this.panels);
+        this.diffView.dispose();
     }
 
     @trace('Fold Response')
@@ -188,6 +201,60 @@ export class HttpResponseWebview extends BaseWebview {
         }
     }
 
+    @trace('Compare Response')
+    private async compare() {
+        const response = this.activeResponse;
+        if (!response) {
+            return;
+        }
+
+        const items: CompareItem[] = ResponseHistory.getPrevious(response).map(({ response: previous, receivedTime }) => ({
+            label: new Date(receivedTime).toLocaleString(),
+            description: `${previous.statusCode} ${previous.statusMessage}`,
+            detail: `Duration: ${previous.timingPhases.total ?? 0}ms`,
+            response: previous
+        }));
+        items.push({ label: 'Compare with Baseline File...' });
+
+        const item = await window.showQuickPick(items, { placeHolder: 'Select the response to compare with' });
+        if (!item) {
+            return;
+        }
+
+        const { method, url, name } = response.request;
+        const title = name ?? `${method} ${url}`;
+        if (item.response) {
+            await this.diffView.show(
+                { title: `${title} (${item.label})`, content: ResponseDiffFormatter.formatResponse(item.response) },
+                { title, content: ResponseDiffFormatter.formatResponse(response) },
+                `${title}: ${item.label} ↔ Current`);
+            return;
+        }
+
+        const rootPath = getWorkspaceRootPath();
+        const uris = await window.showOpenDialog({
+            canSelectMany: false,
+            defaultUri: rootPath ? Uri.parse(rootPath) : undefined,
+            openLabel: 'Compare'
+        });
+        if (!uris?.length) {
+            return;
+        }
+
+        try {
+            const baseline = ResponseDiffFormatter.parseBaseline(await fs.readFile(uris[0].fsPath, 'utf8'));
+            const baselineName = path.basename(uris[0].fsPath);
+
+            // only compare the bodies if the baseline file doesn't contain the status line and headers
+            await this.diffView.show(
+                { title: baselineName, content: ResponseDiffFormatter.format(baseline) },
+                { title, content: ResponseDiffFormatter.formatResponse(response, !!baseline.headers) },
+                `${title}: ${baselineName} ↔ Current`);
+        } catch (error) {
+            window.showErrorMessage(`Failed to compare with the baseline file. ${error.message}`);
+        }
+    }
+
     private static getResponseBodyOuptutFilename(activeResponse: HttpResponse, settings: SystemSettings) {
         if (settings.useContentDispositionFilename) {
             const cdHeader = getHeader(activeResponse.headers, 'content-disposition');
@@ -266,6 +333,8 @@ export class HttpResponseWebview extends BaseWebview {
         </script>
     </head>
     <body>
+        ${this.getAssertionsHtml(response)}
+        ${this.getSoapFaultHtml(response)}
         <div>
             ${this.settings.disableAddingHrefLinkForLargeResponse && response.bodySizeInBytes > this.settings.largeResponseBodySizeLimitInMB * 1024 * 1024
                 ? innerHtml
@@ -326,6 +395,40 @@ ${formatHeaders(response.headers)}`;
         return code;
     }
 
+    private getAssertionsHtml(response: HttpResponse): string {
+        const results = response.assertionResults;
+        if (results.length === 0) {
+            return '';
+        }
+
+        const { failed } = ResponseAssertionProcessor.summarize(results);
+        const items = results.map(({ assertion, passed, message }) => {
+            const detail = message ? ` <span class="assertion-message">${HttpResponseWebview.escapeHtml(message)}</span>` : '';
+            return `<li class="${passed ? 'passed' : 'failed'}">${passed ? '✓' : '✗'} ${HttpResponseWebview.escapeHtml(assertion.text)}${detail}</li>`;
+        });
+        return `
+        <div class="assertions ${failed === 0 ? 'passed' : 'failed'}">
+            <div class="assertions-summary">Assertions: ${results.length - failed} passed, ${failed} failed</div>
+            <ul>${items.join('')}</ul>
+        </div>`;
+    }
+
+    private getSoapFaultHtml(response: HttpResponse): string {
+        const fault = SoapUtility.parseFault(response.body, response.contentType);
+        if (!fault) {
+            return '';
+        }
+
+        const { code, reason, actor, detail } = fault;
+        return `
+        <div class="soap-fault">
+            <div class="soap-fault-summary">SOAP Fault: ${HttpResponseWebview.escapeHtml(code)}</div>
+            <div>${HttpResponseWebview.escapeHtml(reason)}</div>
+            ${actor ? `<div class="soap-fault-actor">Actor: ${HttpResponseWebview.escapeHtml(actor)}</div>` : ''}
+            ${detail ? `<pre class="soap-fault-detail">${HttpResponseWebview.escapeHtml(ResponseFormatUtility.formatBody(detail, 'application/xml', true))}</pre>` : ''}
+        </div>`;
+    }
+
     private getSettingsOverrideStyles(width: number): string {
         return [
             '<style>',
@@ -0,0 +1,160 @@
+import dayjs from 'dayjs';
+import { Disposable, ExtensionContext, ViewColumn, WebviewPanel, window } from 'vscode';
+import { StreamingMessage, StreamingMessageType, StreamingSession } from '../models/streamingSession';
+import { disposeAll } from '../utils/dispose';
+import { BaseWebview } from './baseWebview';
+
+/**
+ * Streams the messages of long-lived connections with timestamps, one panel per connection.
+ * Sessions which accept messages from the client also get an input to send messages
+ */
+export class StreamingResponseWebview extends BaseWebview {
+
+    protected get viewType(): string {
+        return 'rest-streaming-response';
+    }
+
+    protected get previewActiveContextKey(): string {
+        return 'streamingResponsePreviewFocus';
+    }
+
+    public constructor(context: ExtensionContext) {
+        super(context);
+    }
+
+    public render(session: StreamingSession, column: ViewColumn) {
+        const panel = window.createWebviewPanel(
+            this.viewType,
+            session.title,
+            { viewColumn: column, preserveFocus: true },
+            {
+                enableFindWidget: true,
+                enableScripts: true,
+                retainContextWhenHidden: true
+            });
+        panel.iconPath = this.iconFilePath;
+
+        const disposables: Disposable[] = [
+            session.onDidAddMessage(message => panel.webview.postMessage({ command: 'add', html: this.getMessageHtml(message) })),
+            session.onDidClose(() => panel.webview.postMessage({ command: 'close' })),
+            panel.webview.onDidReceiveMessage(async ({ command, text }) => {
+                if (command === 'send' && session.send) {
+                    try {
+                        await session.send(text);
+                    } catch (error) {
+                        window.showErrorMessage(error.message);
+                    }
+                } else if (command === 'close') {
+                    session.close();
+                }
+            }),
+            panel.onDidChangeViewState(({ webviewPanel }) => {
+                this.setPreviewActiveContext(webviewPanel.active);
+                if (webviewPanel.active) {
+                    this.activePanel = webviewPanel;
+                }
+            })
+        ];
+
+        panel.onDidDispose(() => {
+            // closing the panel also closes the connection
+            session.close();
+            disposeAll(disposables);
+            if (this.activePanel === panel) {
+                this.setPreviewActiveContext(false);
+                this.activePanel = undefined;
+            }
+            this.panels.splice(this.panels.indexOf(panel), 1);
+            if (this.panels.length === 0) {
+                this._onDidCloseAllWebviewPanels.fire();
+            }
+        });
+
+        panel.webview.html = this.getHtmlForWebview(panel, session);
+
+        this.panels.push(panel);
+        this.activePanel = panel;
+    }
+
+    public dispose() {
+        disposeAll(this.panels);
+    }
+
+    private getHtmlForWebview(panel: WebviewPanel, session: StreamingSession): string {
+        const messages = session.messages.map(m => this.getMessageHtml(m)).join('');
+        const input = session.send
+            ? `<div class="streaming-input">
+            <textarea id="message" placeholder="Message to send, variables are supported. Press Ctrl+Enter to send"></textarea>
+            <button id="send">Send</button><button id="close">Close Connection</button>
+        </div>`
+            : `<div class="streaming-input"><button id="close">Stop</button></div>`;
+
+        // Content Security Policy
+        const nonce = new Date().getTime() + '' + new Date().getMilliseconds();
+        const csp = this.getCsp(nonce);
+        return `
+    <head>
+        <link rel="stylesheet" type="text/css" href="${panel.webview.asWebviewUri(this.baseFilePath)}">
+        <link rel="stylesheet" type="text/css" href="${panel.webview.asWebviewUri(this.vscodeStyleFilePath)}">
+        <link rel="stylesheet" type="text/css" href="${panel.webview.asWebviewUri(this.customStyleFilePath)}">
+        ${csp}
+    </head>
+    <body>
+        <ul class="streaming-messages" id="messages">${messages}</ul>
+        ${input}
+        <script nonce="${nonce}">
+            (function () {
+                const vscode = acquireVsCodeApi();
+                const list = document.getElementById('messages');
+                const message = document.getElementById('message');
+                const buttons = document.querySelectorAll('.streaming-input button');
+                function send() {
+                    if (message.value.trim()) {
+                        vscode.postMessage({ command: 'send', text: message.value });
+                        message.value = '';
+                    }
+                }
+                function disable() {
+                    buttons.forEach(function (button) { button.disabled = true; });
+                    if (message) {
+                        message.disabled = true;
+                    }
+                }
+                if (message) {
+                    document.getElementById('send').addEventListener('click', send);
+                    message.addEventListener('keydown', function (event) {
+                        if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+                            send();
+                        }
+                    });
+                }
+                document.getElementById('close').addEventListener('click', function () {
+                    vscode.postMessage({ command: 'close' });
+                });
+                window.addEventListener('message', function (event) {
+                    const { command, html } = event.data;
+                    if (command === 'add') {
+                        const scrolledToBottom = window.innerHeight + window.scrollY >= document.body.scrollHeight - 10;
+                        list.insertAdjacentHTML('beforeend', html);
+                        if (scrolledToBottom) {
+                            window.scrollTo(0, document.body.scrollHeight);
+                        }
+                    } else if (command === 'close') {
+                        disable();
+                    }
+                });
+            }());
+        </script>
+    </body>`;
+    }
+
+    private getMessageHtml({ type, data, label, timestamp }: StreamingMessage): string {
+        const direction = type === StreamingMessageType.Sent ? '↑' : type === StreamingMessageType.Received ? '↓' : '';
+        const labelHtml = label ? `<span class="label">${StreamingResponseWebview.escapeHtml(label)}</span>` : '';
+        return `<li class="${StreamingMessageType[type].toLowerCase()}"><span class="timestamp">${dayjs(timestamp).format('HH:mm:ss.SSS')}</span><span class="direction">${direction}</span><div class="content">${labelHtml}<pre>${StreamingResponseWebview.escapeHtml(data)}</pre></div></li>`;
+    }
+
+    private getCsp(nonce: string): string {
+        return `<meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'nonce-${nonce}'; style-src 'self' 'unsafe-inline' http: https: data: vscode-resource:;">`;
+    }
+}
@@ -3,15 +3,15 @@
 'use strict';
 
 const path = require('path');
+const webpack = require('webpack');
 
 /**@type {import('webpack').Configuration}*/
 const config = {
     target: 'node', // vscode extensions run in a Node.js-context 📖 -> https://webpack.js.org/configuration/node/
 
-    entry: './src/extension.ts', // the entry point of this extension, 📖 -> https://webpack.js.org/configuration/entry-context/
     output: { // the bundle is stored in the 'dist' folder (check package.json), 📖 -> https://webpack.js.org/configuration/output/
         path: path.resolve(__dirname, 'dist'),
-        filename: 'extension.js',
+        filename: '[name].js',
         libraryTarget: "commonjs2",
         devtoolModuleFilenameTemplate: "../[resource-path]",
     },
@@ -22,6 +22,9 @@ const config = {
     resolve: { // support reading TypeScript and JavaScript files, 📖 -> https://github.com/TypeStrong/ts-loader
         extensions: ['.ts', '.js']
     },
+    plugins: [
+        new webpack.BannerPlugin({ banner: '#!/usr/bin/env node', raw: true, entryOnly: true, include: 'cli' }),
+    ],
     module: {
         rules: [{
             test: /\.ts$/,
@@ -33,4 +36,10 @@ const config = {
     },
 }
 
-module.exports = config;
+// the command line runner is built separately with `--env cli`, so that it isn't shipped in the extension package
+module.exports = (env = {}) => ({
+    ...config,
+    entry: env.cli // the entry point of this extension or the command line runner, 📖 -> https://webpack.js.org/configuration/entry-context/
+        ? { cli: './src/cli/main.ts' }
+        : { extension: './src/extension.ts' },
+});